@@ -0,0 +1,78 @@
+// End-to-end encryption for /ws (gogogo start --e2e). The protocol is described in src/e2e.ts.
+
+const E2E_PROTOCOL = 'gogogo.e2e';
+const E2E_CLOSE_CODE = 4004;
+const E2E_KEY_STORAGE = 'gogogo-e2e-key';
+const E2E_NONCE_BYTES = 16;
+const E2E_KIND_TEXT = 0;
+const E2E_KIND_BINARY = 1;
+
+const e2eEncoder = new TextEncoder();
+const e2eDecoder = new TextDecoder();
+
+function base64UrlEncode(bytes) {
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value) {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+// The key arrives in the QR code's fragment (#key=...) and is kept for reconnects and reloads
+function loadE2EKey() {
+    const fragment = new URLSearchParams(location.hash.slice(1));
+    const key = fragment.get('key');
+    if (key) {
+        localStorage.setItem(E2E_KEY_STORAGE, key);
+    }
+    return localStorage.getItem(E2E_KEY_STORAGE);
+}
+
+function e2eIV(counter) {
+    const iv = new Uint8Array(12);
+    new DataView(iv.buffer).setUint32(8, counter);
+    new DataView(iv.buffer).setUint16(6, Math.floor(counter / 2 ** 32));
+    return iv;
+}
+
+/**
+ * Derive this connection's keys from the stored key and both nonces. seal() and open() must be
+ * called in message order; the counters are the IVs.
+ */
+async function createE2EChannel(key, serverNonce) {
+    const master = await crypto.subtle.importKey('raw', base64UrlDecode(key), 'HKDF', false, ['deriveKey']);
+    const clientNonce = crypto.getRandomValues(new Uint8Array(E2E_NONCE_BYTES));
+    const salt = new Uint8Array([...base64UrlDecode(serverNonce), ...clientNonce]);
+    const derive = (info, usage) => crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt, info: e2eEncoder.encode(info) },
+        master,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        [usage]
+    );
+    const sendKey = await derive('gogogo-e2e client', 'encrypt');
+    const receiveKey = await derive('gogogo-e2e server', 'decrypt');
+    let sendCounter = 0;
+    let receiveCounter = 0;
+
+    return {
+        clientNonce: base64UrlEncode(clientNonce),
+
+        async seal(data) {
+            const body = typeof data === 'string' ? e2eEncoder.encode(data) : new Uint8Array(data);
+            const plain = new Uint8Array(body.length + 1);
+            plain[0] = typeof data === 'string' ? E2E_KIND_TEXT : E2E_KIND_BINARY;
+            plain.set(body, 1);
+            return crypto.subtle.encrypt({ name: 'AES-GCM', iv: e2eIV(sendCounter++) }, sendKey, plain);
+        },
+
+        // Resolves to a string for JSON messages and an ArrayBuffer for binary frames
+        async open(buffer) {
+            const plain = new Uint8Array(
+                await crypto.subtle.decrypt({ name: 'AES-GCM', iv: e2eIV(receiveCounter++) }, receiveKey, buffer)
+            );
+            return plain[0] === E2E_KIND_TEXT ? e2eDecoder.decode(plain.subarray(1)) : plain.slice(1).buffer;
+        }
+    };
+}
@@ -1,17 +1,229 @@
-window.term = new Terminal({
-    cursorBlink: true,
-    fontSize: 13,
-    theme: { background: '#0a0a0a', foreground: '#ededed' },
-    scrollback: 10000,
-    allowTransparency: false,
+const MAIN_SESSION_ID = 'main';
+
+// Keep an --e2e key from the QR code (see e2e.js). Already logged in (or no login needed):
+// drop an unused pairing token or invite from the address bar.
+loadE2EKey();
+if (/^#(pair|invite|key)=/.test(location.hash)) {
+    history.replaceState(null, '', location.pathname + location.search);
+}
+
+// 'viewer' connections can watch but not type or resize, and only 'owner' ones can make
+// invites (see the server's role message)
+let clientRole = 'owner';
+// The host can stop all browsers from typing for a while (Ctrl-G l)
+let inputLocked = false;
+
+// One xterm instance per PTY session, keyed by session id
+const terminals = new Map();
+let activeSessionId = MAIN_SESSION_ID;
+
+const terminalContainer = document.getElementById('terminal-container');
+const tabList = document.getElementById('tab-list');
+const newTabBtn = document.getElementById('new-tab-btn');
+const sizePolicySelect = document.getElementById('size-policy-select');
+
+function createTerminal(sessionId, name) {
+    const el = document.createElement('div');
+    el.className = 'terminal-pane';
+    terminalContainer.appendChild(el);
+
+    const term = new Terminal({
+        cursorBlink: true,
+        fontSize: 13,
+        theme: { background: '#0a0a0a', foreground: '#ededed' },
+        scrollback: 10000,
+        allowTransparency: false,
+    });
+    const fitAddon = new FitAddon.FitAddon();
+    term.loadAddon(fitAddon);
+    term.open(el);
+
+    // historyOffset: scrollback offset the last snapshot was taken at, where paging back starts
+    const entry = { sessionId, term, fitAddon, el, name: name || sessionId, historyOffset: null };
+    terminals.set(sessionId, entry);
+
+    const viewport = el.querySelector('.xterm-viewport');
+    if (viewport) {
+        viewport.addEventListener('scroll', () => {
+            if (sessionId === activeSessionId) {
+                checkScrollPosition();
+            }
+        });
+    }
+
+    return entry;
+}
+
+function getTerminal(sessionId) {
+    return terminals.get(sessionId) || terminals.get(MAIN_SESSION_ID);
+}
+
+function getActiveTerminal() {
+    return getTerminal(activeSessionId);
+}
+
+function getActiveViewport() {
+    return getActiveTerminal().el.querySelector('.xterm-viewport');
+}
+
+function activateSession(sessionId) {
+    if (!terminals.has(sessionId)) return;
+    activeSessionId = sessionId;
+    terminals.forEach((entry, id) => {
+        entry.el.classList.toggle('active', id === sessionId);
+    });
+
+    const active = getActiveTerminal();
+    window.term = active.term;
+    fitAndReportSize(active);
+    renderTabs();
+    checkScrollPosition();
+}
+
+function renderTabs() {
+    tabList.innerHTML = '';
+    terminals.forEach((entry, sessionId) => {
+        const tab = document.createElement('div');
+        tab.className = 'tab' + (sessionId === activeSessionId ? ' active' : '');
+
+        const label = document.createElement('span');
+        label.className = 'tab-label';
+        label.textContent = entry.name;
+        tab.appendChild(label);
+
+        if (sessionId !== MAIN_SESSION_ID) {
+            const closeBtn = document.createElement('button');
+            closeBtn.className = 'tab-close';
+            closeBtn.textContent = '×';
+            closeBtn.title = 'Close terminal';
+            closeBtn.addEventListener('click', (e) => {
+                e.stopPropagation();
+                closeSession(sessionId, entry.name);
+            });
+            tab.appendChild(closeBtn);
+        }
+
+        tab.addEventListener('click', () => activateSession(sessionId));
+        tab.addEventListener('dblclick', () => {
+            if (clientRole !== 'viewer') renameSession(sessionId, entry.name);
+        });
+        tabList.appendChild(tab);
+    });
+}
+
+// Bring local tabs in line with the server's session list
+function syncSessions(sessions) {
+    const ids = new Set(sessions.map(s => s.id));
+
+    sessions.forEach((session) => {
+        let entry = terminals.get(session.id);
+        if (!entry) {
+            entry = createTerminal(session.id, session.name);
+            entry.term.resize(session.cols, session.rows);
+        }
+        entry.name = session.name;
+    });
+
+    terminals.forEach((entry, sessionId) => {
+        if (!ids.has(sessionId) && sessionId !== MAIN_SESSION_ID) {
+            entry.term.dispose();
+            entry.el.remove();
+            terminals.delete(sessionId);
+        }
+    });
+
+    if (!terminals.has(activeSessionId)) {
+        activateSession(MAIN_SESSION_ID);
+    } else {
+        renderTabs();
+    }
+}
+
+async function createSession() {
+    try {
+        const response = await fetch('api/sessions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({})
+        });
+        const result = await response.json();
+        if (!response.ok) {
+            console.error('Failed to create session:', result.error);
+            return;
+        }
+        let entry = terminals.get(result.session.id);
+        if (!entry) {
+            entry = createTerminal(result.session.id, result.session.name);
+            entry.term.resize(result.session.cols, result.session.rows);
+        }
+        entry.name = result.session.name;
+        activateSession(result.session.id);
+    } catch (error) {
+        console.error('Failed to create session:', error);
+    }
+}
+
+async function renameSession(sessionId, currentName) {
+    const name = prompt('Rename terminal', currentName);
+    if (!name || name === currentName) return;
+    try {
+        await fetch('api/sessions/' + encodeURIComponent(sessionId), {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name })
+        });
+    } catch (error) {
+        console.error('Failed to rename session:', error);
+    }
+}
+
+async function closeSession(sessionId, name) {
+    if (!confirm('Close terminal "' + name + '"?')) return;
+    try {
+        await fetch('api/sessions/' + encodeURIComponent(sessionId), { method: 'DELETE' });
+    } catch (error) {
+        console.error('Failed to close session:', error);
+    }
+}
+
+newTabBtn.addEventListener('click', createSession);
+
+// Reflect the server's size policy; fixed sizes get their own option
+function showSizePolicy(policy) {
+    let option = Array.from(sizePolicySelect.options).find(o => o.value === policy);
+    if (!option) {
+        sizePolicySelect.querySelectorAll('option[data-custom]').forEach(o => o.remove());
+        option = document.createElement('option');
+        option.value = policy;
+        option.dataset.custom = 'true';
+        option.textContent = 'Fixed ' + policy.replace('fixed:', '');
+        sizePolicySelect.insertBefore(option, sizePolicySelect.lastElementChild);
+    }
+    sizePolicySelect.value = policy;
+    sizePolicySelect.dataset.current = policy;
+}
+
+sizePolicySelect.addEventListener('change', () => {
+    let policy = sizePolicySelect.value;
+    if (policy === 'fixed') {
+        const size = prompt('Terminal size (COLSxROWS)', '120x40');
+        if (!size) {
+            sizePolicySelect.value = sizePolicySelect.dataset.current || 'min';
+            return;
+        }
+        policy = 'fixed:' + size.trim();
+    }
+    sendMessage({ type: 'size_policy', policy });
 });
 
-const fitAddon = new FitAddon.FitAddon();
-term.loadAddon(fitAddon);
-term.open(document.getElementById('terminal-container'));
-fitAddon.fit();
+const mainTerminal = createTerminal(MAIN_SESSION_ID, 'main');
+mainTerminal.el.classList.add('active');
+window.term = mainTerminal.term;
+mainTerminal.fitAddon.fit();
+renderTabs();
 
 const statusDot = document.getElementById('status-dot');
+const roleBadge = document.getElementById('role-badge');
 const input = document.getElementById('input');
 const scrollBtn = document.getElementById('scroll-to-bottom');
 const specialKeysBtn = document.getElementById('special-keys-btn');
@@ -26,7 +238,6 @@ let isReconnecting = false;
 let isUserScrolling = false;
 
 // Touch scrolling state
-const terminalContainer = document.getElementById('terminal-container');
 const isTouchDevice = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
 
 // Initialize touch scrolling for mobile devices
@@ -37,7 +248,7 @@ if (isTouchDevice) {
 // Touch scrolling implementation for smooth mobile scrolling
 function initTouchScrolling(container, onScrollStart) {
     const touchState = {
-        startY: 0, lastY: 0, lastTime: 0,
+        startY: 0, lastY: 0, lastX: 0, lastTime: 0,
         velocity: 0, identifier: null,
         touching: false, velocityHistory: [],
         accumulator: 0, inertiaId: null
@@ -70,7 +281,7 @@ function initTouchScrolling(container, onScrollStart) {
     }
 
     function performScroll(deltaY) {
-        const viewport = container.querySelector('.xterm-viewport');
+        const viewport = getActiveViewport();
         if (!viewport) return;
         viewport.scrollTop += deltaY;
         viewport.dispatchEvent(new WheelEvent('wheel', {
@@ -89,6 +300,7 @@ function initTouchScrolling(container, onScrollStart) {
                 identifier: touch.identifier,
                 startY: touch.clientY,
                 lastY: touch.clientY,
+                lastX: touch.clientX,
                 lastTime: performance.now(),
                 velocity: 0,
                 velocityHistory: [],
@@ -111,6 +323,10 @@ function initTouchScrolling(container, onScrollStart) {
         // Update velocity
         updateVelocity(deltaY / timeDelta);
 
+        // Pan sideways when the terminal is wider than the screen
+        getActiveTerminal().el.scrollLeft += touchState.lastX - touch.clientX;
+        touchState.lastX = touch.clientX;
+
         touchState.lastY = currentY;
         touchState.lastTime = currentTime;
         touchState.accumulator += deltaY;
@@ -211,16 +427,66 @@ function initTouchScrolling(container, onScrollStart) {
 }
 
 function setInputEnabled(enabled) {
+    const viewer = clientRole === 'viewer';
+    const connected = enabled;
+    enabled = enabled && !viewer && !inputLocked;
     input.disabled = !enabled;
     input.style.opacity = enabled ? '1' : '0.5';
     input.style.cursor = enabled ? 'text' : 'not-allowed';
-    if (!enabled) {
+    if (viewer) {
+        input.placeholder = 'View only';
+    } else if (connected && inputLocked) {
+        input.placeholder = 'Input locked by the host';
+    } else if (!enabled) {
         input.placeholder = 'Reconnecting...';
     } else {
         input.placeholder = 'Type command or use voice input...';
     }
 }
 
+// `user` is the account name when logged in with a username and password
+function setRole(role, user) {
+    clientRole = role;
+    document.body.classList.toggle('owner', role === 'owner');
+    document.body.classList.toggle('viewer', role === 'viewer');
+    document.body.classList.toggle('named', !!user);
+    const label = { viewer: 'View only', operator: 'Operator' }[role];
+    roleBadge.textContent = [user, label].filter(Boolean).join(' · ');
+    setInputEnabled(ws && ws.readyState === 1);
+    if (role !== 'viewer') {
+        fitAndReportSize(getActiveTerminal());
+    }
+}
+
+// Tell the server how big the terminal could be on this screen. The terminal itself is shown
+// at the PTY's size (pty_size), which the server picks according to its size policy.
+function fitAndReportSize(entry) {
+    if (clientRole === 'viewer') return;
+    const dims = entry.fitAddon.proposeDimensions();
+    if (!dims || !dims.cols || !dims.rows) return;
+    sendMessage({ type: 'resize', sessionId: entry.sessionId, cols: dims.cols, rows: dims.rows });
+}
+
+// Tunneled connections don't carry the login cookie, so present a token for it instead.
+// The server sends them nothing until this arrives.
+async function authenticateSocket(socket) {
+    try {
+        const response = await fetch('api/ws-token');
+        // Login expired or revoked: reloading lands on the login page
+        if (response.redirected || response.status === 401) {
+            location.reload();
+            return;
+        }
+        if (!response.ok) return;
+        const { token } = await response.json();
+        if (socket.readyState === 1) {
+            sendRaw(socket, JSON.stringify({ type: 'auth', token }));
+        }
+    } catch (error) {
+        console.error('Failed to authenticate WebSocket:', error);
+    }
+}
+
 function updateStatus(state) {
     statusDot.className = '';
     if (state === 'disconnected') {
@@ -234,6 +500,170 @@ function updateStatus(state) {
     }
 }
 
+const processBanner = document.getElementById('process-banner');
+const processBannerText = document.getElementById('process-banner-text');
+const restartBtn = document.getElementById('restart-btn');
+
+// Offer to restart the main command once it has exited
+function showProcessState(state) {
+    processBanner.classList.toggle('show', !state.running);
+    if (state.running) return;
+
+    let text = 'Command exited with code ' + state.code;
+    if (state.restartIn !== undefined) {
+        text += ', restarting in ' + Math.round(state.restartIn / 1000) + 's';
+    }
+    processBannerText.textContent = text;
+}
+
+const deviceOverlay = document.getElementById('device-overlay');
+const deviceOverlayText = document.getElementById('device-overlay-text');
+
+function showDeviceOverlay(text) {
+    deviceOverlayText.textContent = text;
+    deviceOverlay.classList.toggle('show', !!text);
+}
+
+// --idle-lock: the server sends this socket nothing more until it logs in again
+const lockOverlay = document.getElementById('lock-overlay');
+const lockForm = document.getElementById('lock-form');
+const lockError = document.getElementById('lock-error');
+const lockFields = {
+    username: document.getElementById('lock-username'),
+    password: document.getElementById('lock-password'),
+    pin: document.getElementById('lock-pin'),
+    code: document.getElementById('lock-code')
+};
+let lockedSocket = null;
+
+// `login` says which fields the server wants: { pin, users, code }
+function showLock(socket, login) {
+    lockedSocket = socket;
+    lockFields.username.style.display = login.users ? '' : 'none';
+    lockFields.password.style.display = login.users ? '' : 'none';
+    lockFields.pin.style.display = login.pin ? '' : 'none';
+    lockFields.code.style.display = login.code ? '' : 'none';
+    Object.values(lockFields).forEach((field) => { field.value = ''; });
+    lockError.textContent = '';
+    lockOverlay.classList.add('show');
+    setInputEnabled(false);
+}
+
+lockForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    const username = lockFields.username.value.trim();
+    const code = lockFields.code.value.trim();
+    // A username means an account login, otherwise the PIN
+    const body = username
+        ? { username, password: lockFields.password.value, code }
+        : { pin: lockFields.pin.value.trim(), code };
+    try {
+        const response = await fetch('api/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        const result = await response.json();
+        if (!response.ok) {
+            lockError.textContent = result.error || 'Login failed';
+            return;
+        }
+        lockOverlay.classList.remove('show');
+        // The new login's token unlocks the socket, which then gets fresh snapshots
+        if (lockedSocket && lockedSocket.readyState === 1) {
+            authenticateSocket(lockedSocket);
+        } else {
+            location.reload();
+        }
+    } catch (error) {
+        lockError.textContent = 'Network error. Please try again.';
+    }
+});
+
+restartBtn.addEventListener('click', () => {
+    sendMessage({ type: 'restart' });
+});
+
+// Lines held by the server's --guard, oldest first; the banner shows the first
+let guardRequests = [];
+const guardBanner = document.getElementById('guard-banner');
+const guardBannerLine = document.getElementById('guard-banner-line');
+
+function showGuardRequest() {
+    guardBanner.classList.toggle('show', guardRequests.length > 0);
+    if (guardRequests.length > 0) {
+        guardBannerLine.textContent = guardRequests[0].line;
+    }
+}
+
+function answerGuardRequest(approved) {
+    const request = guardRequests.shift();
+    if (request) {
+        sendMessage({ type: 'guard_answer', id: request.id, approved });
+    }
+    showGuardRequest();
+}
+
+document.getElementById('guard-run-btn').addEventListener('click', () => answerGuardRequest(true));
+document.getElementById('guard-cancel-btn').addEventListener('click', () => answerGuardRequest(false));
+
+// Binary output frame: [type][session id length][session id][data], all text UTF-8
+const FRAME_OUTPUT = 1;
+const frameDecoder = new TextDecoder();
+
+function decodeOutputFrame(buffer) {
+    const bytes = new Uint8Array(buffer);
+    if (bytes.length < 2 || bytes[0] !== FRAME_OUTPUT) return null;
+    const idEnd = 2 + bytes[1];
+    return {
+        type: 'output',
+        sessionId: frameDecoder.decode(bytes.subarray(2, idEnd)),
+        data: frameDecoder.decode(bytes.subarray(idEnd))
+    };
+}
+
+// Send to the server, encrypted once the --e2e handshake is done. Until then messages wait
+// on the socket's send queue, which the handshake starts.
+function sendRaw(socket, data) {
+    if (socket.protocol !== E2E_PROTOCOL) {
+        socket.send(data);
+        return;
+    }
+    socket.sendQueue = socket.sendQueue
+        .then(() => socket.e2e.seal(data))
+        .then((frame) => {
+            if (socket.readyState === 1) socket.send(frame);
+        })
+        .catch((error) => console.error('Failed to encrypt message:', error));
+}
+
+function sendMessage(msg) {
+    if (ws && ws.readyState === 1) {
+        sendRaw(ws, JSON.stringify(msg));
+    }
+}
+
+// Send input to the session shown in the active tab
+function sendInput(data) {
+    sendMessage({ type: 'input', sessionId: activeSessionId, data });
+}
+
+// Derive the connection's keys from the server's nonce and send ours back
+async function startE2E(socket, data, onReady) {
+    try {
+        const msg = JSON.parse(data);
+        if (msg.type !== 'e2e') throw new Error('Expected the E2E handshake');
+        const channel = await createE2EChannel(loadE2EKey(), msg.nonce);
+        socket.send(JSON.stringify({ type: 'e2e', nonce: channel.clientNonce }));
+        socket.e2e = channel;
+        socket.e2eStarted();
+        onReady();
+    } catch (error) {
+        console.error('E2E handshake failed:', error);
+        socket.close(E2E_CLOSE_CODE, 'E2E handshake failed');
+    }
+}
+
 function connect() {
     // WebSocket will automatically include cookies with the request
     // Build WebSocket URL relative to current location
@@ -245,21 +675,72 @@ function connect() {
     const hasCookie = document.cookie.includes('auth=');
     console.log('Connecting WebSocket, auth cookie present:', hasCookie);
 
-    ws = new WebSocket(wsUrl);
+    // Holding an --e2e key: offer encryption, which the server picks if it was started with --e2e.
+    // WebCrypto only exists on HTTPS pages (and localhost).
+    const e2eKey = loadE2EKey();
+    ws = e2eKey && window.crypto && crypto.subtle ? new WebSocket(wsUrl, ['gogogo', E2E_PROTOCOL]) : new WebSocket(wsUrl);
+    ws.binaryType = 'arraybuffer';
+    const socket = ws;
+    let opened = false;
 
-    // Expose WebSocket globally for voice input
-    window.terminalWs = ws;
+    // Expose the connection globally for voice input
+    window.terminalWs = {
+        get readyState() { return socket.readyState; },
+        send: (data) => sendRaw(socket, data)
+    };
+
+    const onReady = () => {
+        // Ask for output as binary frames (see decodeOutputFrame)
+        sendRaw(socket, JSON.stringify({ type: 'hello', binary: true }));
+        fitAndReportSize(getActiveTerminal());
+        authenticateSocket(socket);
+    };
 
     ws.onopen = () => {
         console.log('WebSocket connected');
+        opened = true;
         updateStatus('connected');
         reconnectAttempts = 0;
-        fitAddon.fit();
-        ws.send(JSON.stringify({ type: 'resize', cols: term.cols, rows: term.rows }));
+        if (socket.protocol === E2E_PROTOCOL) {
+            // Wait for the server's nonce (see startE2E)
+            socket.sendQueue = new Promise((resolve) => { socket.e2eStarted = resolve; });
+            socket.receiveQueue = Promise.resolve();
+        } else {
+            onReady();
+        }
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
         console.log('WebSocket closed');
+        // 4001: this login was revoked
+        if (event.code === 4001) {
+            location.reload();
+            return;
+        }
+        resolveHistoryPage({ error: 'Disconnected' });
+        // The server refuses held lines when their client goes away
+        guardRequests = [];
+        showGuardRequest();
+        // 4002: the host disconnected this browser and revoked its login
+        // 4003: the host turned this device down; reconnecting would only ask again
+        // 4004: the session is end-to-end encrypted and this browser lacks the right key
+        if (event.code === 4002 || event.code === 4003 || event.code === E2E_CLOSE_CODE) {
+            showDeviceOverlay({
+                4002: 'Disconnected by the host.',
+                4003: 'This device was not approved. Ask the host to approve it, then reload the page.',
+                [E2E_CLOSE_CODE]: 'This session is end-to-end encrypted. Scan the QR code in the host terminal to connect.',
+            }[event.code]);
+            updateStatus('disconnected');
+            ws = null;
+            window.terminalWs = null;
+            return;
+        }
+        // A refused upgrade looks like any other failure; find out whether the login is gone
+        if (!opened) {
+            fetch('api/ws-token').then((response) => {
+                if (response.redirected || response.status === 401) location.reload();
+            }).catch(() => {});
+        }
         updateStatus('disconnected');
         ws = null;
         window.terminalWs = null;
@@ -279,24 +760,102 @@ function connect() {
     };
 
     ws.onmessage = (e) => {
-        const msg = JSON.parse(e.data);
+        if (socket.protocol !== E2E_PROTOCOL) {
+            handleMessage(e.data);
+            return;
+        }
+        if (!socket.e2e) {
+            startE2E(socket, e.data, onReady);
+            return;
+        }
+        // Decrypt strictly in order; the counters are the IVs
+        socket.receiveQueue = socket.receiveQueue
+            .then(() => socket.e2e.open(e.data))
+            .then(handleMessage, () => socket.close(E2E_CLOSE_CODE, 'E2E decryption failed'))
+            .catch((error) => console.error('Failed to handle message:', error));
+    };
+
+    const handleMessage = (data) => {
+        const msg = data instanceof ArrayBuffer ? decodeOutputFrame(data) : JSON.parse(data);
+        if (!msg) return;
+        if (msg.type === 'history_page') {
+            resolveHistoryPage(msg);
+        }
+        if (msg.type === 'guard_pending') {
+            guardRequests.push(msg);
+            showGuardRequest();
+        }
+        // Answered by the host, or here
+        if (msg.type === 'guard_resolved') {
+            guardRequests = guardRequests.filter(r => r.id !== msg.id);
+            showGuardRequest();
+        }
+        const sessionId = msg.sessionId || MAIN_SESSION_ID;
+        if (msg.type === 'device_pending') {
+            showDeviceOverlay('Waiting for the host to approve this device…');
+        }
+        if (msg.type === 'role') {
+            showDeviceOverlay('');
+            setRole(msg.role, msg.user);
+        }
+        if (msg.type === 'locked') {
+            showLock(socket, msg.login);
+        }
+        if (msg.type === 'input_lock') {
+            inputLocked = msg.locked;
+            setInputEnabled(ws && ws.readyState === 1);
+        }
+        if (msg.type === 'size_policy') {
+            if (msg.error) {
+                alert(msg.error);
+            }
+            showSizePolicy(msg.policy);
+        }
+        if (msg.type === 'process_state' && sessionId === MAIN_SESSION_ID) {
+            showProcessState(msg);
+        }
+        if (msg.type === 'pty_size') {
+            const target = terminals.get(sessionId);
+            if (target && (target.term.cols !== msg.cols || target.term.rows !== msg.rows)) {
+                target.term.resize(msg.cols, msg.rows);
+            }
+        }
+        if (msg.type === 'sessions') {
+            syncSessions(msg.sessions);
+            setInputEnabled(true);
+        }
         if (msg.type === 'output') {
-            term.write(msg.data);
-            checkScrollPosition();
+            const target = terminals.get(sessionId);
+            if (target) {
+                target.term.write(msg.data);
+                if (sessionId === activeSessionId) {
+                    checkScrollPosition();
+                }
+            }
         }
         if (msg.type === 'history') {
-            term.clear();
-            msg.data.forEach(d => term.write(d));
+            const target = terminals.get(sessionId) || createTerminal(sessionId);
+            // The snapshot restores the full screen state, so start from a clean terminal
+            // of the size it was taken at
+            target.term.reset();
+            target.historyOffset = typeof msg.offset === 'number' ? msg.offset : null;
+            if (msg.cols && msg.rows) {
+                target.term.resize(msg.cols, msg.rows);
+            }
+            msg.data.forEach(d => target.term.write(d));
             setInputEnabled(true);
-            term.scrollToBottom();
+            target.term.scrollToBottom();
             setTimeout(() => {
-                const viewport = document.querySelector('.xterm-viewport');
+                const viewport = target.el.querySelector('.xterm-viewport');
                 if (viewport) {
                     viewport.scrollTop = viewport.scrollHeight;
                 }
                 isUserScrolling = false;
             }, 100);
         }
+        if (msg.type === 'exit' && sessionId === MAIN_SESSION_ID) {
+            terminals.get(MAIN_SESSION_ID).term.write('\r\n[Process exited with code ' + msg.code + ']\r\n');
+        }
         // Handle ASR messages
         if (msg.type === 'asr_response') {
             if (window.handleASRResponse) {
@@ -348,9 +907,9 @@ function connect() {
                                     input.value = '';
                                     input.style.height = 'auto';
                                     // Send text first, then Enter key
-                                    ws.send(JSON.stringify({ type: 'input', data: cmd }));
+                                    sendInput(cmd);
                                     setTimeout(() => {
-                                        ws.send(JSON.stringify({ type: 'input', data: String.fromCharCode(13) }));
+                                        sendInput(String.fromCharCode(13));
                                     }, 50);
                                 }
                             }, 100);
@@ -372,13 +931,13 @@ input.addEventListener('keydown', (e) => {
             input.style.height = 'auto';
             if (cmd) {
                 // Send text first, then Enter key separately after delay
-                ws.send(JSON.stringify({ type: 'input', data: cmd }));
+                sendInput(cmd);
                 setTimeout(() => {
-                    ws.send(JSON.stringify({ type: 'input', data: String.fromCharCode(13) }));
+                    sendInput(String.fromCharCode(13));
                 }, 50);
             } else {
                 // Just send Enter if empty
-                ws.send(JSON.stringify({ type: 'input', data: String.fromCharCode(13) }));
+                sendInput(String.fromCharCode(13));
             }
         }
     }
@@ -435,13 +994,13 @@ function handleSpecialKey(key) {
     };
 
     if (keyMap[key]) {
-        ws.send(JSON.stringify({ type: 'input', data: keyMap[key] }));
+        sendInput(keyMap[key]);
     }
 }
 
 // Scroll handling
 function checkScrollPosition() {
-    const viewport = document.querySelector('.xterm-viewport');
+    const viewport = getActiveViewport();
     if (!viewport) return;
 
     const isNearBottom = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < 100;
@@ -452,35 +1011,223 @@ function checkScrollPosition() {
     } else {
         scrollBtn.classList.add('visible');
     }
+
+    // Reached the top of what the terminal holds; offer the server's older output
+    const atTop = viewport.scrollTop < 10 && viewport.scrollHeight > viewport.clientHeight;
+    historyBtn.classList.toggle('visible', atTop && getActiveTerminal().historyOffset !== null);
 }
 
 scrollBtn.addEventListener('click', () => {
-    const viewport = document.querySelector('.xterm-viewport');
+    const viewport = getActiveViewport();
     if (viewport) {
         viewport.scrollTop = viewport.scrollHeight;
     }
-    term.scrollToBottom();
+    getActiveTerminal().term.scrollToBottom();
     isUserScrolling = false;
     scrollBtn.classList.remove('visible');
 });
 
-// Monitor scroll
-const viewport = document.querySelector('.xterm-viewport');
-if (viewport) {
-    viewport.addEventListener('scroll', () => {
-        checkScrollPosition();
-    });
+// Earlier output panel - pages back through the server's scrollback on demand
+const historyBtn = document.getElementById('history-btn');
+const historyPanel = document.getElementById('history-panel');
+const historyContent = document.getElementById('history-content');
+const historyText = document.getElementById('history-text');
+const historyMoreBtn = document.getElementById('history-more');
+const HISTORY_PAGE_BYTES = 64 * 1024;
+let historySessionId = null;
+let historyBefore = null;
+let historyLoading = false;
+
+// Plain text is enough for reading back; drop escape sequences and stray carriage returns
+function stripAnsi(text) {
+    return text
+        .replace(/\x1b\][^\x07\x1b]*(\x07|\x1b\\)/g, '')
+        .replace(/\x1b\[[0-?]*[ -\/]*[@-~]/g, '')
+        .replace(/\x1b[@-Z\\-_]/g, '')
+        .replace(/\r\n/g, '\n')
+        .replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '');
+}
+
+// With --e2e, output only travels over the encrypted socket, so pages are asked for there
+let pendingHistoryPage = null;
+
+function resolveHistoryPage(page) {
+    if (pendingHistoryPage) {
+        pendingHistoryPage(page);
+        pendingHistoryPage = null;
+    }
+}
+
+async function fetchHistoryPage(params) {
+    if (ws && ws.e2e) {
+        return new Promise((resolve) => {
+            pendingHistoryPage = resolve;
+            sendMessage({ type: 'history_page', ...params });
+        });
+    }
+    const response = await fetch('api/history?' + new URLSearchParams(params).toString());
+    return response.json();
+}
+
+async function loadHistoryPage() {
+    if (historyLoading || historyBefore === null) return;
+    historyLoading = true;
+    historyMoreBtn.disabled = true;
+
+    try {
+        const page = await fetchHistoryPage({
+            sessionId: historySessionId,
+            before: String(historyBefore),
+            limit: String(HISTORY_PAGE_BYTES)
+        });
+        if (page.error) {
+            console.error('Failed to load history:', page.error);
+            return;
+        }
+
+        // Prepend while keeping the reader's place
+        const previousHeight = historyContent.scrollHeight;
+        historyText.textContent = stripAnsi(page.data) + historyText.textContent;
+        historyContent.scrollTop += historyContent.scrollHeight - previousHeight;
+
+        historyBefore = page.hasMore ? page.start : null;
+        historyMoreBtn.style.display = page.hasMore ? 'block' : 'none';
+    } catch (error) {
+        console.error('Failed to load history:', error);
+    } finally {
+        historyLoading = false;
+        historyMoreBtn.disabled = false;
+    }
+}
+
+async function openHistory() {
+    const active = getActiveTerminal();
+    if (active.historyOffset === null) return;
+
+    historySessionId = activeSessionId;
+    historyBefore = active.historyOffset;
+    historyText.textContent = '';
+    historyMoreBtn.style.display = 'none';
+    historyPanel.classList.add('show');
+    historyBtn.classList.remove('visible');
+
+    await loadHistoryPage();
+    historyContent.scrollTop = historyContent.scrollHeight;
+}
+
+historyBtn.addEventListener('click', openHistory);
+historyMoreBtn.addEventListener('click', loadHistoryPage);
+document.getElementById('history-close').addEventListener('click', () => {
+    historyPanel.classList.remove('show');
+    historyText.textContent = '';
+});
+
+// Invite panel - owners make links that log someone in as a viewer or operator for a while
+const invitePanel = document.getElementById('invite-panel');
+const inviteForm = document.getElementById('invite-form');
+const inviteResult = document.getElementById('invite-result');
+const inviteUrl = document.getElementById('invite-url');
+const inviteError = document.getElementById('invite-error');
+const inviteList = document.getElementById('invite-list');
+
+function inviteStatus(invite) {
+    if (invite.revokedAt) return 'revoked';
+    if (invite.expiresAt <= Date.now()) return 'expired';
+    return invite.active ? 'active' : 'used up';
 }
 
+async function loadInvites() {
+    try {
+        const response = await fetch('api/admin/invites');
+        const result = await response.json();
+        if (!response.ok) {
+            inviteError.textContent = result.error || 'Could not load invites';
+            return;
+        }
+        inviteList.textContent = '';
+        result.invites.forEach((invite) => {
+            const row = document.createElement('div');
+            row.className = 'invite-row';
+            const uses = invite.uses + (invite.maxUses ? '/' + invite.maxUses : '') + ' used';
+            const until = 'until ' + new Date(invite.expiresAt).toLocaleString();
+            [invite.id, invite.role, inviteStatus(invite), uses, invite.logins + ' logged in', until].forEach((text) => {
+                const cell = document.createElement('span');
+                cell.textContent = text;
+                row.appendChild(cell);
+            });
+            if (!invite.revokedAt && invite.expiresAt > Date.now()) {
+                const revokeBtn = document.createElement('button');
+                revokeBtn.textContent = 'Revoke';
+                revokeBtn.addEventListener('click', () => revokeInvite(invite.id));
+                row.appendChild(revokeBtn);
+            }
+            inviteList.appendChild(row);
+        });
+    } catch (error) {
+        console.error('Failed to load invites:', error);
+    }
+}
+
+async function revokeInvite(id) {
+    if (!confirm('Revoke invite ' + id + ' and log out everyone who used it?')) return;
+    try {
+        await fetch('api/admin/invites/' + encodeURIComponent(id), { method: 'DELETE' });
+    } catch (error) {
+        console.error('Failed to revoke invite:', error);
+    }
+    loadInvites();
+}
+
+inviteForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    inviteError.textContent = '';
+    try {
+        const response = await fetch('api/admin/invites', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                role: document.getElementById('invite-role').value,
+                ttl: document.getElementById('invite-ttl').value,
+                uses: document.getElementById('invite-uses').value || undefined
+            })
+        });
+        const result = await response.json();
+        if (!response.ok) {
+            inviteError.textContent = result.error || 'Could not create the invite';
+            return;
+        }
+        // The server leaves the --e2e key out so it never crosses the tunnel in the clear
+        const key = ws && ws.e2e ? loadE2EKey() : null;
+        inviteUrl.value = key ? result.url + '&key=' + key : result.url;
+        inviteResult.style.display = '';
+        inviteUrl.select();
+        loadInvites();
+    } catch (error) {
+        inviteError.textContent = 'Network error. Please try again.';
+    }
+});
+
+document.getElementById('invite-copy').addEventListener('click', () => {
+    navigator.clipboard.writeText(inviteUrl.value).catch(() => inviteUrl.select());
+});
+
+document.getElementById('invite-btn').addEventListener('click', () => {
+    inviteResult.style.display = 'none';
+    inviteError.textContent = '';
+    invitePanel.classList.add('show');
+    loadInvites();
+});
+
+document.getElementById('invite-close').addEventListener('click', () => {
+    invitePanel.classList.remove('show');
+});
+
 // Window resize
 let resizeTimeout;
 window.addEventListener('resize', () => {
     clearTimeout(resizeTimeout);
     resizeTimeout = setTimeout(() => {
-        fitAddon.fit();
-        if (ws && ws.readyState === 1) {
-            ws.send(JSON.stringify({ type: 'resize', cols: term.cols, rows: term.rows }));
-        }
+        fitAndReportSize(getActiveTerminal());
     }, 100);
 });
 
@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { CONFIG_DIR } from './config';
+
+export const AUDIT_FILE = path.join(CONFIG_DIR, 'audit.jsonl');
+// Where the log moves once it reaches MAX_AUDIT_BYTES, replacing the one moved there before
+export const ROTATED_AUDIT_FILE = `${AUDIT_FILE}.1`;
+export const MAX_AUDIT_BYTES = 10 * 1024 * 1024;
+
+export interface AuditEntry {
+    time: string;
+    event: string;
+    // gogogo process that wrote the entry, to tell sessions apart
+    pid: number;
+    client?: string;
+    ip?: string;
+    // Username, for clients that logged in with a password
+    user?: string;
+    [field: string]: unknown;
+}
+
+export interface AuditOptions {
+    // Record what was typed from the web, not just its length (--audit-input)
+    rawInput?: boolean;
+    // Size at which the log is rotated
+    maxBytes?: number;
+}
+
+export interface AuditFilter {
+    since?: number;
+    client?: string;
+    user?: string;
+    event?: string;
+}
+
+let auditFd: number | null = null;
+let redactInput = true;
+let maxBytes = MAX_AUDIT_BYTES;
+
+/**
+ * Open the audit log for appending. Entries are only ever added, never rewritten.
+ */
+export function startAudit(options: AuditOptions = {}): void {
+    if (auditFd !== null) {
+        return;
+    }
+    redactInput = !options.rawInput;
+    maxBytes = options.maxBytes || MAX_AUDIT_BYTES;
+
+    fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    auditFd = fs.openSync(AUDIT_FILE, 'a', 0o600);
+}
+
+/**
+ * Move a full log aside and start a new one. Several sessions append to the same file,
+ * so also reopen when another one has rotated it since.
+ */
+function rotateIfFull(): void {
+    let size = 0;
+    try {
+        const current = fs.statSync(AUDIT_FILE);
+        if (current.ino !== fs.fstatSync(auditFd!).ino) {
+            reopen();
+        }
+        size = current.size;
+    } catch {
+        // Removed or rotated away without a new file yet
+        reopen();
+    }
+
+    if (size >= maxBytes) {
+        fs.renameSync(AUDIT_FILE, ROTATED_AUDIT_FILE);
+        reopen();
+    }
+}
+
+function reopen(): void {
+    fs.closeSync(auditFd!);
+    auditFd = fs.openSync(AUDIT_FILE, 'a', 0o600);
+}
+
+export function stopAudit(): void {
+    if (auditFd !== null) {
+        fs.closeSync(auditFd);
+        auditFd = null;
+    }
+}
+
+export function isAuditEnabled(): boolean {
+    return auditFd !== null;
+}
+
+export function isInputRedacted(): boolean {
+    return redactInput;
+}
+
+/**
+ * Append one event. Does nothing unless startAudit was called.
+ */
+export function audit(event: string, fields: Omit<AuditEntry, 'time' | 'event' | 'pid'> = {}): void {
+    if (auditFd === null) {
+        return;
+    }
+    const entry: AuditEntry = { time: new Date().toISOString(), event, pid: process.pid, ...fields };
+    // Written synchronously so nothing is lost when the process exits right after
+    try {
+        rotateIfFull();
+        fs.writeSync(auditFd!, JSON.stringify(entry) + '\n');
+    } catch (error) {
+        console.error('  [Audit] Failed to write audit log:', error instanceof Error ? error.message : error);
+    }
+}
+
+/**
+ * Record remote input: only its length, unless --audit-input asked for the keystrokes
+ */
+export function auditInput(client: string, ip: string, user: string | undefined, sessionId: string, data: string): void {
+    if (redactInput) {
+        audit('input', { client, ip, user, session: sessionId, bytes: Buffer.byteLength(data) });
+    } else {
+        audit('input', { client, ip, user, session: sessionId, data });
+    }
+}
+
+/**
+ * Read entries matching a filter, oldest first, including the rotated log. The files are
+ * streamed, since they can be large.
+ */
+export async function readAudit(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    for (const file of [ROTATED_AUDIT_FILE, AUDIT_FILE]) {
+        if (fs.existsSync(file)) {
+            await readAuditFile(file, filter, entries);
+        }
+    }
+    return entries;
+}
+
+async function readAuditFile(file: string, filter: AuditFilter, entries: AuditEntry[]): Promise<void> {
+    const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+    for await (const line of lines) {
+        if (!line.trim()) continue;
+
+        let entry: AuditEntry;
+        try {
+            entry = JSON.parse(line);
+        } catch {
+            // A line cut short by a crash
+            continue;
+        }
+
+        if (filter.since !== undefined && Date.parse(entry.time) < filter.since) continue;
+        if (filter.client && !(entry.client || '').startsWith(filter.client)) continue;
+        if (filter.user && entry.user !== filter.user) continue;
+        if (filter.event && entry.event !== filter.event) continue;
+        entries.push(entry);
+    }
+}
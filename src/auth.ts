@@ -0,0 +1,177 @@
+import * as crypto from 'crypto';
+
+// Owners have full control; operators can use the terminals but not manage the session
+// (kick, PIN, invites); viewers only watch
+export type ClientRole = 'owner' | 'operator' | 'viewer';
+
+export const DEFAULT_SESSION_TTL = 24 * 60 * 60 * 1000;
+export const PAIRING_TOKEN_TTL = 5 * 60 * 1000;
+
+export interface AuthSession {
+    id: string;
+    role: ClientRole;
+    createdAt: number;
+    expiresAt: number;
+    ip: string;
+    userAgent: string;
+    // Set when logged in with a username and password (see users.ts)
+    user?: string;
+    // Set when logged in with an invite link (see invites.ts)
+    invite?: string;
+}
+
+// Signs session tokens. Regenerated on every start, so restarting gogogo logs everyone out.
+let secret = crypto.randomBytes(32);
+const sessions: Map<string, AuthSession> = new Map();
+// Token from the newest pairing QR code; printing a new one invalidates the last
+let pairingToken: { token: string; expiresAt: number } | null = null;
+
+// Sent by the tunnel on every request it relays. Its WebSocket connections arrive without
+// the browser's cookies and authenticate with an 'auth' message instead.
+export const TUNNEL_HEADER = 'x-gogogo-tunnel';
+// Set by the tunnel to the browser's address as the gateway reported it
+export const CLIENT_IP_HEADER = 'x-gogogo-client-ip';
+const tunnelSecret = crypto.randomBytes(16).toString('hex');
+
+/**
+ * Parse durations such as "90s", "30m", "12h" or "7d" into milliseconds
+ */
+export function parseDuration(value: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*(s|m|h|d)?$/i.exec(value.trim());
+    if (!match) {
+        throw new Error(`Invalid duration: ${value}`);
+    }
+
+    const units: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+    const ms = Math.floor(parseFloat(match[1]) * units[(match[2] || 's').toLowerCase()]);
+    if (ms <= 0) {
+        throw new Error(`Duration must be positive: ${value}`);
+    }
+    return ms;
+}
+
+/**
+ * Compare secrets without leaking where they differ through timing
+ */
+export function safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+export function getTunnelSecret(): string {
+    return tunnelSecret;
+}
+
+function sign(payload: string): string {
+    return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Forget all sessions and start signing with a new secret
+ */
+export function resetAuth(): void {
+    secret = crypto.randomBytes(32);
+    sessions.clear();
+    pairingToken = null;
+}
+
+/**
+ * Mint a single-use token that logs one device in without the PIN
+ */
+export function createPairingToken(ttl: number = PAIRING_TOKEN_TTL): string {
+    const token = crypto.randomBytes(16).toString('base64url');
+    pairingToken = { token, expiresAt: Date.now() + ttl };
+    return token;
+}
+
+/**
+ * Check a pairing token. A matching token is burned even if it had expired.
+ */
+export function consumePairingToken(token: unknown): boolean {
+    if (typeof token !== 'string' || !pairingToken || !safeEqual(token, pairingToken.token)) {
+        return false;
+    }
+    const valid = pairingToken.expiresAt > Date.now();
+    pairingToken = null;
+    return valid;
+}
+
+/**
+ * Start a login session. The token is `<session id>.<expiry>.<signature>` and
+ * reveals nothing about the PIN it was issued for.
+ */
+export function createAuthSession(
+    role: ClientRole,
+    ttl: number,
+    ip: string,
+    userAgent: string,
+    user?: string,
+    invite?: string
+): { token: string; session: AuthSession } {
+    pruneExpiredSessions();
+
+    const now = Date.now();
+    const session: AuthSession = {
+        id: crypto.randomBytes(16).toString('base64url'),
+        role,
+        createdAt: now,
+        expiresAt: now + ttl,
+        ip,
+        userAgent,
+        user,
+        invite,
+    };
+    sessions.set(session.id, session);
+
+    const payload = `${session.id}.${session.expiresAt}`;
+    return { token: `${payload}.${sign(payload)}`, session };
+}
+
+/**
+ * The live session a token belongs to, or null if it is forged, expired or revoked
+ */
+export function verifyAuthToken(token: string | undefined): AuthSession | null {
+    if (!token) {
+        return null;
+    }
+
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        return null;
+    }
+
+    const [id, expiresAt, signature] = parts;
+    if (!safeEqual(signature, sign(`${id}.${expiresAt}`))) {
+        return null;
+    }
+
+    const session = sessions.get(id);
+    if (!session || session.expiresAt !== Number(expiresAt) || session.expiresAt <= Date.now()) {
+        return null;
+    }
+    return session;
+}
+
+export function revokeAuthSession(id: string): boolean {
+    return sessions.delete(id);
+}
+
+export function getAuthSession(id: string): AuthSession | null {
+    const session = sessions.get(id);
+    return session && session.expiresAt > Date.now() ? session : null;
+}
+
+export function listAuthSessions(): AuthSession[] {
+    pruneExpiredSessions();
+    return Array.from(sessions.values());
+}
+
+function pruneExpiredSessions(): void {
+    const now = Date.now();
+    sessions.forEach((session, id) => {
+        if (session.expiresAt <= now) {
+            sessions.delete(id);
+        }
+    });
+}
@@ -2,7 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
-const CONFIG_DIR = path.join(os.homedir(), '.codingin');
+export const CONFIG_DIR = path.join(os.homedir(), '.codingin');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 
 export interface Config {
@@ -0,0 +1,569 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { spawn } from 'child_process';
+import { CONFIG_DIR } from './config';
+import {
+    writeLocalInput, onPTYData, onPTYExit, setLocalSize, setLocalTerminalAttached, isHeadless,
+    MAIN_SESSION_ID,
+} from './pty';
+import { serializeScreen } from './screen';
+import { parseInviteRole } from './invites';
+import { createPairingURL, createInviteURL, listInviteSummaries, revokeInviteLink, InviteSummary } from './web-server';
+
+// Session records, control sockets and daemon logs live here
+export const SESSIONS_DIR = path.join(CONFIG_DIR, 'sessions');
+
+// Ctrl-] detaches an attached terminal, like telnet
+const DETACH_KEY = '\x1d';
+const DAEMON_START_TIMEOUT = 30000;
+// How long a control request waits for the session to reply
+export const CONTROL_REQUEST_TIMEOUT = 10000;
+
+export interface SessionRecord {
+    id: string;
+    pid: number;
+    name: string;
+    command: string;
+    tunnelUrl: string;
+    detached: boolean;
+    startedAt: number;
+    socketPath: string;
+}
+
+// Requests a client sends over a session's control socket
+export type ControlRequest =
+    | { type: 'info' }
+    | { type: 'attach'; cols: number; rows: number }
+    | { type: 'input'; data: string }
+    | { type: 'resize'; cols: number; rows: number }
+    | { type: 'pair' }
+    | { type: 'invite'; role: string; ttl: number; uses?: number }
+    | { type: 'invites' }
+    | { type: 'revoke_invite'; id: string }
+    | { type: 'kill' };
+
+// Replies and attached-terminal traffic the session sends back
+export type ControlReply =
+    | { type: 'info'; session: SessionRecord | null }
+    | { type: 'error'; message: string }
+    | { type: 'ok' }
+    | { type: 'history'; data: string }
+    | { type: 'output'; data: string }
+    | { type: 'exit'; code: number }
+    | { type: 'detached'; reason: string }
+    | { type: 'pair'; url: string }
+    | { type: 'invite'; url: string; invite: InviteSummary }
+    | { type: 'invites'; invites: InviteSummary[] }
+    | { type: 'invite_revoked'; invite: InviteSummary };
+
+let controlServer: net.Server | null = null;
+let currentRecord: SessionRecord | null = null;
+let attachedSocket: net.Socket | null = null;
+// Output produced while the attach snapshot is being taken
+let attachQueue: ControlReply[] | null = null;
+
+export function generateSessionId(): string {
+    return crypto.randomBytes(3).toString('hex');
+}
+
+function recordPath(id: string): string {
+    return path.join(SESSIONS_DIR, `${id}.json`);
+}
+
+export function socketPathFor(id: string): string {
+    return path.join(SESSIONS_DIR, `${id}.sock`);
+}
+
+export function logPathFor(id: string): string {
+    return path.join(SESSIONS_DIR, `${id}.log`);
+}
+
+/**
+ * Send one newline-delimited JSON message over a control socket
+ */
+function sendMessage(socket: net.Socket, msg: ControlRequest | ControlReply): void {
+    if (!socket.destroyed) {
+        socket.write(JSON.stringify(msg) + '\n');
+    }
+}
+
+/**
+ * Split a control socket stream into JSON messages. Only objects with a string `type`
+ * get through; the handlers still check each field they use, since the peer is untrusted.
+ */
+function readMessages<T extends { type: string }>(socket: net.Socket, onMessage: (msg: T) => void): void {
+    let buffer = '';
+    socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            let msg: unknown;
+            try {
+                msg = JSON.parse(line);
+            } catch {
+                // Ignore malformed lines
+                continue;
+            }
+            if (typeof msg === 'object' && msg !== null && typeof (msg as { type?: unknown }).type === 'string') {
+                onMessage(msg as T);
+            }
+        }
+    });
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Start the control socket for this session and publish its record
+ */
+export function startControlServer(record: Omit<SessionRecord, 'socketPath'>, onKill: () => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        fs.mkdirSync(SESSIONS_DIR, { recursive: true });
+
+        const socketPath = socketPathFor(record.id);
+        if (fs.existsSync(socketPath)) {
+            fs.unlinkSync(socketPath);
+        }
+
+        currentRecord = { ...record, socketPath };
+
+        controlServer = net.createServer((socket) => {
+            readMessages<ControlRequest>(socket, (msg) => handleControlMessage(socket, msg, onKill));
+
+            socket.on('close', () => {
+                if (socket === attachedSocket) {
+                    attachedSocket = null;
+                    setLocalTerminalAttached(false);
+                }
+            });
+            socket.on('error', () => {
+                // The client went away; 'close' cleans up
+            });
+        });
+
+        controlServer.on('error', reject);
+        controlServer.listen(socketPath, () => {
+            fs.chmodSync(socketPath, 0o600);
+            fs.writeFileSync(recordPath(record.id), JSON.stringify(currentRecord, null, 2), { mode: 0o600 });
+            resolve();
+        });
+
+        // Stream main session output to the attached terminal
+        onPTYData((data, sessionId) => {
+            if (attachedSocket && sessionId === MAIN_SESSION_ID) {
+                sendAttached({ type: 'output', data });
+            }
+        });
+
+        onPTYExit((code, sessionId) => {
+            if (attachedSocket && sessionId === MAIN_SESSION_ID) {
+                sendAttached({ type: 'exit', code });
+            }
+        });
+    });
+}
+
+function sendAttached(msg: ControlReply): void {
+    if (attachQueue) {
+        attachQueue.push(msg);
+    } else if (attachedSocket) {
+        sendMessage(attachedSocket, msg);
+    }
+}
+
+function handleControlMessage(socket: net.Socket, msg: ControlRequest, onKill: () => void): void {
+    switch (msg.type) {
+        case 'info':
+            sendMessage(socket, { type: 'info', session: currentRecord });
+            break;
+
+        case 'attach':
+            if (!isHeadless()) {
+                sendMessage(socket, { type: 'error', message: 'Session is running in a terminal already' });
+                socket.end();
+                return;
+            }
+
+            // Only one terminal can be attached at a time
+            if (attachedSocket && attachedSocket !== socket) {
+                sendMessage(attachedSocket, { type: 'detached', reason: 'Attached from another terminal' });
+                attachedSocket.end();
+            }
+            attachedSocket = socket;
+
+            if (msg.cols > 0 && msg.rows > 0) {
+                setLocalSize(msg.cols, msg.rows);
+            }
+            setLocalTerminalAttached(true);
+
+            attachQueue = [];
+            serializeScreen(MAIN_SESSION_ID).then((snapshot) => {
+                sendMessage(socket, { type: 'history', data: snapshot ? snapshot.data : '' });
+                const queued = attachQueue || [];
+                attachQueue = null;
+                queued.forEach((queuedMsg) => sendMessage(socket, queuedMsg));
+            });
+            break;
+
+        case 'input':
+            if (socket === attachedSocket && typeof msg.data === 'string') {
+                writeLocalInput(msg.data);
+            }
+            break;
+
+        case 'resize':
+            if (socket === attachedSocket && msg.cols > 0 && msg.rows > 0) {
+                setLocalSize(msg.cols, msg.rows);
+            }
+            break;
+
+        case 'pair':
+            sendMessage(socket, { type: 'pair', url: createPairingURL(currentRecord!.tunnelUrl) });
+            break;
+
+        case 'invite':
+            try {
+                const { url, invite } = createInviteURL(currentRecord!.tunnelUrl, {
+                    role: parseInviteRole(String(msg.role)),
+                    ttl: Number(msg.ttl),
+                    maxUses: typeof msg.uses === 'number' ? msg.uses : undefined,
+                }, 'cli');
+                sendMessage(socket, { type: 'invite', url, invite });
+            } catch (error) {
+                sendMessage(socket, { type: 'error', message: error instanceof Error ? error.message : String(error) });
+            }
+            break;
+
+        case 'invites':
+            sendMessage(socket, { type: 'invites', invites: listInviteSummaries() });
+            break;
+
+        case 'revoke_invite': {
+            const invite = typeof msg.id === 'string' ? revokeInviteLink(msg.id, 'cli') : null;
+            sendMessage(socket, invite
+                ? { type: 'invite_revoked', invite }
+                : { type: 'error', message: `No single invite matching "${msg.id}"` });
+            break;
+        }
+
+        case 'kill':
+            sendMessage(socket, { type: 'ok' });
+            socket.end();
+            onKill();
+            break;
+
+        default:
+            sendMessage(socket, { type: 'error', message: `Unknown command: ${(msg as { type: string }).type}` });
+    }
+}
+
+/**
+ * Close the control socket and remove the session record
+ */
+export function stopControlServer(): void {
+    if (controlServer) {
+        controlServer.close();
+        controlServer = null;
+    }
+
+    if (currentRecord) {
+        for (const file of [currentRecord.socketPath, recordPath(currentRecord.id)]) {
+            try {
+                fs.unlinkSync(file);
+            } catch {
+                // Already gone
+            }
+        }
+        currentRecord = null;
+    }
+}
+
+/**
+ * List running sessions, pruning records left behind by dead processes
+ */
+export function listSessions(): SessionRecord[] {
+    if (!fs.existsSync(SESSIONS_DIR)) {
+        return [];
+    }
+
+    const records: SessionRecord[] = [];
+    for (const file of fs.readdirSync(SESSIONS_DIR)) {
+        if (!file.endsWith('.json')) continue;
+
+        const fullPath = path.join(SESSIONS_DIR, file);
+        try {
+            const record: SessionRecord = JSON.parse(fs.readFileSync(fullPath, 'utf-8'));
+            if (isProcessAlive(record.pid)) {
+                records.push(record);
+            } else {
+                fs.unlinkSync(fullPath);
+                if (fs.existsSync(record.socketPath)) {
+                    fs.unlinkSync(record.socketPath);
+                }
+            }
+        } catch {
+            // Skip unreadable records
+        }
+    }
+
+    return records.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * Find a session by id (or unique id prefix). Without an id, the only running session.
+ */
+export function findSession(id?: string): SessionRecord {
+    const sessions = listSessions();
+
+    if (!id) {
+        if (sessions.length === 1) {
+            return sessions[0];
+        }
+        throw new Error(sessions.length === 0
+            ? 'No running sessions'
+            : 'Several sessions are running, pass a session id (see `gogogo ls`)');
+    }
+
+    const matches = sessions.filter((s) => s.id.startsWith(id));
+    if (matches.length !== 1) {
+        throw new Error(matches.length === 0 ? `No session matching "${id}"` : `Session id "${id}" is ambiguous`);
+    }
+    return matches[0];
+}
+
+/**
+ * Connect to a session's control socket
+ */
+export function connectControl(record: SessionRecord): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+        const socket = net.connect(record.socketPath);
+        socket.once('connect', () => resolve(socket));
+        socket.once('error', reject);
+    });
+}
+
+/**
+ * Send a single request and wait for the first reply. Fails if the session hangs up
+ * or doesn't answer within `timeout`.
+ */
+export async function requestControl(
+    record: SessionRecord,
+    msg: ControlRequest,
+    timeout: number = CONTROL_REQUEST_TIMEOUT
+): Promise<ControlReply> {
+    const socket = await connectControl(record);
+    return new Promise((resolve, reject) => {
+        let settled = false;
+        const settle = (error: Error | null, reply?: ControlReply) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            socket.destroy();
+            if (error) {
+                reject(error);
+            } else {
+                resolve(reply!);
+            }
+        };
+
+        const timer = setTimeout(() => settle(new Error(`Session ${record.id} did not reply in time`)), timeout);
+        readMessages<ControlReply>(socket, (reply) => settle(null, reply));
+        socket.once('error', (error) => settle(error));
+        socket.once('close', () => settle(new Error(`Session ${record.id} closed the connection without replying`)));
+        sendMessage(socket, msg);
+    });
+}
+
+/**
+ * The error for a reply other than the one expected
+ */
+function replyError(reply: ControlReply, fallback: string): Error {
+    return new Error(reply.type === 'error' && reply.message ? reply.message : fallback);
+}
+
+/**
+ * Ask a session for a fresh pairing URL (see createPairingURL)
+ */
+export async function requestPairingURL(record: SessionRecord): Promise<string> {
+    const reply = await requestControl(record, { type: 'pair' });
+    if (reply.type !== 'pair') {
+        throw replyError(reply, 'Session did not return a pairing link');
+    }
+    return reply.url;
+}
+
+/**
+ * Ask a session to mint an invite link (see createInviteURL)
+ */
+export async function requestInvite(
+    record: SessionRecord,
+    options: { role: string; ttl: number; uses?: number }
+): Promise<{ url: string; invite: InviteSummary }> {
+    const reply = await requestControl(record, { type: 'invite', ...options });
+    if (reply.type !== 'invite') {
+        throw replyError(reply, 'Session did not return an invite link');
+    }
+    return { url: reply.url, invite: reply.invite };
+}
+
+export async function requestInvites(record: SessionRecord): Promise<InviteSummary[]> {
+    const reply = await requestControl(record, { type: 'invites' });
+    if (reply.type !== 'invites') {
+        throw replyError(reply, 'Session did not list its invites');
+    }
+    return reply.invites;
+}
+
+export async function requestRevokeInvite(record: SessionRecord, id: string): Promise<InviteSummary> {
+    const reply = await requestControl(record, { type: 'revoke_invite', id });
+    if (reply.type !== 'invite_revoked') {
+        throw replyError(reply, 'Session did not revoke the invite');
+    }
+    return reply.invite;
+}
+
+/**
+ * Stop a running session, falling back to SIGTERM if its socket is unreachable
+ */
+export async function killSession(record: SessionRecord): Promise<void> {
+    try {
+        await requestControl(record, { type: 'kill' });
+    } catch {
+        process.kill(record.pid, 'SIGTERM');
+    }
+}
+
+/**
+ * Attach the current terminal to a detached session until Ctrl-] or exit
+ */
+export async function attachSession(record: SessionRecord): Promise<void> {
+    const socket = await connectControl(record);
+
+    return new Promise((resolve) => {
+        let finished = false;
+        // With --restart or --keep-alive the session outlives its command, so only the socket closing ends this
+        let exitCode: number | null = null;
+
+        const restore = () => {
+            if (process.stdin.isTTY) {
+                process.stdin.setRawMode(false);
+            }
+            process.stdin.pause();
+            process.stdin.removeListener('data', onInput);
+            process.stdout.removeListener('resize', onResize);
+        };
+
+        const finish = (message: string) => {
+            if (finished) return;
+            finished = true;
+            restore();
+            socket.destroy();
+            console.log('');
+            console.log(`  ${message}`);
+            resolve();
+        };
+
+        const onInput = (data: Buffer) => {
+            const text = data.toString();
+            const detachIndex = text.indexOf(DETACH_KEY);
+            if (detachIndex !== -1) {
+                if (detachIndex > 0) {
+                    sendMessage(socket, { type: 'input', data: text.slice(0, detachIndex) });
+                }
+                finish(`Detached from session ${record.id}. Reattach with: gogogo attach ${record.id}`);
+                return;
+            }
+            sendMessage(socket, { type: 'input', data: text });
+        };
+
+        const onResize = () => {
+            sendMessage(socket, { type: 'resize', cols: process.stdout.columns, rows: process.stdout.rows });
+        };
+
+        readMessages<ControlReply>(socket, (msg) => {
+            switch (msg.type) {
+                case 'history':
+                    // Clear the screen before replaying what the session has printed so far
+                    process.stdout.write('\x1b[2J\x1b[H' + msg.data);
+                    break;
+                case 'output':
+                    process.stdout.write(msg.data);
+                    break;
+                case 'exit':
+                    exitCode = msg.code;
+                    process.stdout.write(`\r\n[Process exited with code ${msg.code}]\r\n`);
+                    break;
+                case 'detached':
+                    finish(msg.reason);
+                    break;
+                case 'error':
+                    finish(`Error: ${msg.message}`);
+                    break;
+            }
+        });
+
+        socket.on('close', () => finish(exitCode !== null
+            ? `Session ${record.id} ended (exit code ${exitCode}).`
+            : `Connection to session ${record.id} closed.`));
+
+        if (process.stdin.isTTY) {
+            process.stdin.setRawMode(true);
+        }
+        process.stdin.resume();
+        process.stdin.on('data', onInput);
+        process.stdout.on('resize', onResize);
+
+        sendMessage(socket, {
+            type: 'attach',
+            cols: process.stdout.columns || 80,
+            rows: process.stdout.rows || 24,
+        });
+    });
+}
+
+/**
+ * Re-run the current `gogogo start` command in the background and wait until its tunnel is up
+ */
+export function spawnDetachedSession(argv: string[]): Promise<SessionRecord> {
+    return new Promise((resolve, reject) => {
+        fs.mkdirSync(SESSIONS_DIR, { recursive: true });
+
+        const id = generateSessionId();
+        const logFd = fs.openSync(logPathFor(id), 'a', 0o600);
+        const args = argv.filter((arg) => arg !== '--detach');
+
+        const child = spawn(process.execPath, [...process.execArgv, ...args], {
+            detached: true,
+            stdio: ['ignore', logFd, logFd],
+            env: { ...process.env, GOGOGO_DAEMON_ID: id },
+        });
+        child.unref();
+        fs.closeSync(logFd);
+
+        const startedAt = Date.now();
+        const poll = setInterval(() => {
+            if (fs.existsSync(recordPath(id))) {
+                clearInterval(poll);
+                resolve(JSON.parse(fs.readFileSync(recordPath(id), 'utf-8')));
+            } else if (child.exitCode !== null || !isProcessAlive(child.pid!)) {
+                clearInterval(poll);
+                reject(new Error(`Background session exited early, see ${logPathFor(id)}`));
+            } else if (Date.now() - startedAt > DAEMON_START_TIMEOUT) {
+                clearInterval(poll);
+                reject(new Error(`Background session did not start in time, see ${logPathFor(id)}`));
+            }
+        }, 200);
+    });
+}
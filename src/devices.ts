@@ -0,0 +1,159 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_DIR } from './config';
+import { promptLocalKey, LocalPromptCancel } from './pty';
+import { audit } from './audit';
+
+const DEVICES_FILE = path.join(CONFIG_DIR, 'devices.json');
+
+export interface ApprovedDevice {
+    // SHA-256 of the device cookie; the cookie itself is never stored
+    fingerprint: string;
+    label: string;
+    approvedAt: number;
+}
+
+interface ApprovalRequest {
+    deviceId: string;
+    label: string;
+    description: string;
+    callbacks: Array<(approved: boolean) => void>;
+    // Withdraws the question in the local terminal
+    cancelPrompt: LocalPromptCancel | null;
+}
+
+// Waiting for the host, by device id
+const pendingApprovals: Map<string, ApprovalRequest> = new Map();
+
+export function deviceFingerprint(deviceId: string): string {
+    return crypto.createHash('sha256').update(deviceId).digest('hex');
+}
+
+export function listApprovedDevices(): ApprovedDevice[] {
+    try {
+        if (fs.existsSync(DEVICES_FILE)) {
+            const data = JSON.parse(fs.readFileSync(DEVICES_FILE, 'utf-8'));
+            return Array.isArray(data.devices) ? data.devices : [];
+        }
+    } catch (error) {
+        console.error('Error reading approved devices:', error);
+    }
+    return [];
+}
+
+function saveApprovedDevices(devices: ApprovedDevice[]): void {
+    if (!fs.existsSync(CONFIG_DIR)) {
+        fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    }
+    fs.writeFileSync(DEVICES_FILE, JSON.stringify({ devices }, null, 2), { mode: 0o600 });
+}
+
+export function isDeviceApproved(deviceId: string | undefined): boolean {
+    if (!deviceId) {
+        return false;
+    }
+    const fingerprint = deviceFingerprint(deviceId);
+    return listApprovedDevices().some((device) => device.fingerprint === fingerprint);
+}
+
+export function approveDevice(deviceId: string, label: string): void {
+    const fingerprint = deviceFingerprint(deviceId);
+    const devices = listApprovedDevices().filter((device) => device.fingerprint !== fingerprint);
+    devices.push({ fingerprint, label, approvedAt: Date.now() });
+    saveApprovedDevices(devices);
+}
+
+/**
+ * Forget approved devices whose fingerprint starts with `prefix`. Returns how many were removed.
+ */
+export function removeApprovedDevice(prefix: string): number {
+    const devices = listApprovedDevices();
+    const remaining = devices.filter((device) => !device.fingerprint.startsWith(prefix));
+    if (remaining.length !== devices.length) {
+        saveApprovedDevices(remaining);
+    }
+    return devices.length - remaining.length;
+}
+
+/**
+ * Short browser/OS description of a user agent, e.g. "Safari/iOS"
+ */
+export function describeUserAgent(userAgent: string): string {
+    const browser = /Edg\//.test(userAgent) ? 'Edge'
+        : /(Chrome|CriOS)\//.test(userAgent) ? 'Chrome'
+            : /(Firefox|FxiOS)\//.test(userAgent) ? 'Firefox'
+                : /Safari\//.test(userAgent) ? 'Safari'
+                    : 'Unknown browser';
+    const os = /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+        : /Android/.test(userAgent) ? 'Android'
+            : /Mac OS X/.test(userAgent) ? 'macOS'
+                : /Windows/.test(userAgent) ? 'Windows'
+                    : /Linux/.test(userAgent) ? 'Linux'
+                        : 'unknown OS';
+    return `${browser}/${os}`;
+}
+
+/**
+ * Ask in the local terminal whether a device may connect. Requests from the same device
+ * share one prompt. Returns a function that withdraws the request (e.g. when the browser
+ * disconnects while waiting).
+ */
+export function requestDeviceApproval(
+    deviceId: string,
+    description: string,
+    label: string,
+    callback: (approved: boolean) => void
+): () => void {
+    let request = pendingApprovals.get(deviceId);
+    if (!request) {
+        const created: ApprovalRequest = { deviceId, description, label, callbacks: [], cancelPrompt: null };
+        pendingApprovals.set(deviceId, created);
+        // Asked on the next tick, so the callback never runs before this returns
+        setImmediate(() => askHost(created));
+        request = created;
+    }
+    request.callbacks.push(callback);
+
+    const pending = request;
+    return () => {
+        pending.callbacks = pending.callbacks.filter((cb) => cb !== callback);
+        if (pending.callbacks.length > 0 || pendingApprovals.get(deviceId) !== pending) {
+            return;
+        }
+        pendingApprovals.delete(deviceId);
+        if (pending.cancelPrompt) {
+            pending.cancelPrompt('withdrawn');
+        }
+    };
+}
+
+function askHost(request: ApprovalRequest): void {
+    if (pendingApprovals.get(request.deviceId) !== request) {
+        // Withdrawn before it was asked
+        return;
+    }
+
+    request.cancelPrompt = promptLocalKey({
+        ask: () => process.stdout.write(`\r\n  🔔 Allow ${request.description}? [y/N] `),
+        answer: (key) => {
+            const approved = key.toLowerCase() === 'y';
+            process.stdout.write(approved ? 'yes\r\n' : 'no\r\n');
+            settleApproval(request, approved, '');
+        },
+    });
+    if (!request.cancelPrompt) {
+        // Nobody can answer without a local terminal
+        settleApproval(request, false, ' (no terminal to approve it from)');
+    }
+}
+
+function settleApproval(request: ApprovalRequest, approved: boolean, reason: string): void {
+    pendingApprovals.delete(request.deviceId);
+    if (approved) {
+        approveDevice(request.deviceId, request.label);
+    }
+    console.log(`  [Devices] ${approved ? 'Approved' : 'Denied'} ${request.description}${reason}`);
+    audit(approved ? 'device_approved' : 'device_denied', { device: request.description });
+    request.callbacks.forEach((callback) => callback(approved));
+}
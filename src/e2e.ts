@@ -0,0 +1,135 @@
+import * as crypto from 'crypto';
+import { WebSocket } from 'ws';
+
+/**
+ * End-to-end encryption for /ws (--e2e).
+ *
+ * A random 256-bit key is handed to the browser in the QR code's URL fragment, which never
+ * leaves the phone. Each connection then swaps fresh nonces in the clear:
+ *
+ *   server -> { type: 'e2e', nonce }    client -> { type: 'e2e', nonce }
+ *
+ * and derives one AES-256-GCM key per direction with HKDF-SHA256(key, serverNonce || clientNonce).
+ * Every later message is a binary frame holding ciphertext and tag. The IV is the message
+ * counter, so a dropped, replayed or reordered frame fails to decrypt. The plaintext starts
+ * with a byte saying whether it is a JSON text message or a binary frame (see framing.ts).
+ * public/js/e2e.js is the browser side.
+ */
+
+// Offered by browsers that hold a key
+export const E2E_PROTOCOL = 'gogogo.e2e';
+// Close code when the handshake fails or a frame doesn't decrypt
+export const E2E_CLOSE_CODE = 4004;
+
+const KEY_BYTES = 32;
+const NONCE_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KIND_TEXT = 0;
+const KIND_BINARY = 1;
+
+export function generateE2EKey(): Buffer {
+    return crypto.randomBytes(KEY_BYTES);
+}
+
+function ivForCounter(counter: number): Buffer {
+    const iv = Buffer.alloc(IV_BYTES);
+    iv.writeUIntBE(counter, IV_BYTES - 6, 6);
+    return iv;
+}
+
+/**
+ * One connection's keys and message counters
+ */
+export class E2EChannel {
+    readonly serverNonce = crypto.randomBytes(NONCE_BYTES);
+    private sendKey: Buffer | null = null;
+    private receiveKey: Buffer | null = null;
+    private sendCounter = 0;
+    private receiveCounter = 0;
+
+    constructor(private readonly masterKey: Buffer) {}
+
+    get ready(): boolean {
+        return this.sendKey !== null;
+    }
+
+    /**
+     * Derive the keys once the client's nonce arrives
+     */
+    accept(clientNonce: unknown): void {
+        const nonce = typeof clientNonce === 'string' ? Buffer.from(clientNonce, 'base64url') : Buffer.alloc(0);
+        if (nonce.length !== NONCE_BYTES) {
+            throw new Error('Invalid E2E nonce');
+        }
+        const salt = Buffer.concat([this.serverNonce, nonce]);
+        this.sendKey = Buffer.from(crypto.hkdfSync('sha256', this.masterKey, salt, 'gogogo-e2e server', KEY_BYTES));
+        this.receiveKey = Buffer.from(crypto.hkdfSync('sha256', this.masterKey, salt, 'gogogo-e2e client', KEY_BYTES));
+    }
+
+    seal(data: string | Buffer): Buffer {
+        if (!this.sendKey) {
+            throw new Error('E2E handshake not complete');
+        }
+        const kind = typeof data === 'string' ? KIND_TEXT : KIND_BINARY;
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.sendKey, ivForCounter(this.sendCounter++));
+        const body = Buffer.concat([cipher.update(Buffer.from([kind])), cipher.update(data), cipher.final()]);
+        return Buffer.concat([body, cipher.getAuthTag()]);
+    }
+
+    /**
+     * Decrypt the next frame from the client. Throws if it was tampered with or is out of order.
+     */
+    open(frame: Buffer): string | Buffer {
+        if (!this.receiveKey) {
+            throw new Error('E2E handshake not complete');
+        }
+        if (frame.length < TAG_BYTES + 1) {
+            throw new Error('E2E frame too short');
+        }
+        const decipher = crypto.createDecipheriv('aes-256-gcm', this.receiveKey, ivForCounter(this.receiveCounter++));
+        decipher.setAuthTag(frame.subarray(frame.length - TAG_BYTES));
+        const plain = Buffer.concat([decipher.update(frame.subarray(0, frame.length - TAG_BYTES)), decipher.final()]);
+        return plain[0] === KIND_TEXT ? plain.subarray(1).toString('utf-8') : plain.subarray(1);
+    }
+}
+
+// The options and callback of ws's own send
+type SendOptions = Parameters<WebSocket['send']>[1];
+type SendCallback = (err?: Error) => void;
+
+/**
+ * WebSocket that encrypts everything sent once `startE2E` was called, so callers keep
+ * using plain `send`. Messages sent before the handshake completes wait for it.
+ */
+export class E2EWebSocket extends WebSocket {
+    e2e: E2EChannel | null = null;
+    private pendingSends: Array<string | Buffer> = [];
+
+    startE2E(channel: E2EChannel): void {
+        this.e2e = channel;
+        super.send(JSON.stringify({ type: 'e2e', nonce: channel.serverNonce.toString('base64url') }));
+    }
+
+    completeE2E(clientNonce: unknown): void {
+        this.e2e!.accept(clientNonce);
+        const pending = this.pendingSends;
+        this.pendingSends = [];
+        pending.forEach((data) => this.send(data));
+    }
+
+    send(data: string | Buffer, cb?: SendCallback): void;
+    send(data: string | Buffer, options: SendOptions, cb?: SendCallback): void;
+    send(data: string | Buffer, options?: SendOptions | SendCallback, cb?: SendCallback): void {
+        const callback = typeof options === 'function' ? options : cb;
+        if (!this.e2e) {
+            super.send(data, typeof options === 'object' ? options : {}, callback);
+            return;
+        }
+        if (!this.e2e.ready) {
+            this.pendingSends.push(data);
+            return;
+        }
+        super.send(this.e2e.seal(data), { binary: true }, callback);
+    }
+}
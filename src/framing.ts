@@ -0,0 +1,22 @@
+/**
+ * Binary frames for terminal output on /ws, used by clients that announce
+ * `{ type: 'hello', binary: true }`. Everything else stays JSON.
+ *
+ *   byte 0        frame type
+ *   byte 1        session id length (n)
+ *   bytes 2..n+1  session id (UTF-8)
+ *   rest          output data (UTF-8)
+ */
+export const FRAME_OUTPUT = 1;
+
+export function encodeOutputFrame(sessionId: string, data: string): Buffer {
+    const id = Buffer.from(sessionId);
+    const payload = Buffer.from(data);
+    const frame = Buffer.allocUnsafe(2 + id.length + payload.length);
+
+    frame[0] = FRAME_OUTPUT;
+    frame[1] = id.length;
+    id.copy(frame, 2);
+    payload.copy(frame, 2 + id.length);
+    return frame;
+}
@@ -0,0 +1,107 @@
+import { onHostKey, promptLocalKey } from './pty';
+import {
+    listClients, kickClient, rotatePIN, invalidateSessions, setRemoteInputLocked, isRemoteInputLocked,
+} from './web-server';
+
+// The local terminal is in raw mode, so lines need explicit carriage returns
+function hostPrint(lines: string[]): void {
+    process.stdout.write('\r\n' + lines.map((line) => `  ${line}`).join('\r\n') + '\r\n');
+}
+
+function hostError(error: unknown): void {
+    hostPrint([`✗ ${error instanceof Error ? error.message : error}`]);
+}
+
+/**
+ * Ask a y/N question in the local terminal, after any prompt already waiting there
+ */
+function confirmHost(question: string, callback: () => void): void {
+    promptLocalKey({
+        ask: () => process.stdout.write(`\r\n  ${question} [y/N] `),
+        answer: (key) => {
+            const approved = key.toLowerCase() === 'y';
+            process.stdout.write(approved ? 'yes\r\n' : 'no\r\n');
+            if (approved) {
+                callback();
+            }
+        },
+    });
+}
+
+function formatAge(since: number): string {
+    const minutes = Math.floor((Date.now() - since) / 60000);
+    return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h${minutes % 60}m`;
+}
+
+function showMenu(): void {
+    hostPrint([
+        'gogogo host commands (Ctrl-G, then):',
+        '  p  print a new pairing QR code',
+        '  c  list connected browsers',
+        '  k  disconnect a browser and revoke its login',
+        `  l  ${isRemoteInputLocked() ? 'unlock' : 'lock'} remote input`,
+        '  r  switch to a new random PIN and log everyone out',
+        '  x  log everyone out',
+        '  ?  show this menu',
+        'Ctrl-G twice sends one Ctrl-G to the program.',
+    ]);
+}
+
+function showClients(): void {
+    const clients = listClients();
+    if (clients.length === 0) {
+        hostPrint(['No browsers connected.']);
+        return;
+    }
+    hostPrint(clients.map((client, index) =>
+        `${index + 1}. ${client.id}  ${(client.user || '-').padEnd(12)}  ${client.role.padEnd(8)}  ${client.ip.padEnd(15)}  connected ${formatAge(client.connectedAt)} ago`
+    ));
+}
+
+function promptKick(): void {
+    const clients = listClients().slice(0, 9);
+    if (clients.length === 0) {
+        hostPrint(['No browsers connected.']);
+        return;
+    }
+    showClients();
+
+    promptLocalKey({
+        ask: () => process.stdout.write(`\r\n  Disconnect which? [1-${clients.length}, anything else cancels] `),
+        answer: (key) => {
+            const client = clients[parseInt(key, 10) - 1];
+            process.stdout.write(client ? `${key}\r\n` : 'cancelled\r\n');
+            if (client && !kickClient(client.id, 'host')) {
+                hostPrint([`${client.id} has already gone.`]);
+            }
+        },
+    });
+}
+
+/**
+ * Ctrl-G commands for managing browsers from the terminal running gogogo
+ */
+export function setupHostMenu(): void {
+    onHostKey('?', showMenu);
+    onHostKey('h', showMenu);
+    onHostKey('c', showClients);
+    onHostKey('k', promptKick);
+    onHostKey('l', () => {
+        setRemoteInputLocked(!isRemoteInputLocked(), 'host');
+        hostPrint([isRemoteInputLocked()
+            ? '🔒 Remote input locked. Browsers can watch but not type (Ctrl-G l unlocks).'
+            : '🔓 Remote input unlocked.']);
+    });
+    onHostKey('r', () => confirmHost('Switch to a new PIN and log everyone out?', () => {
+        try {
+            const pin = rotatePIN('host');
+            hostPrint([`🔐 New PIN for web access: ${pin}`, 'Everyone has been logged out.']);
+        } catch (error) {
+            hostError(error);
+        }
+    }));
+    onHostKey('x', () => confirmHost('Log everyone out?', () => {
+        const count = invalidateSessions('host');
+        hostPrint([`Logged everyone out (${count} browser${count === 1 ? '' : 's'} disconnected).`]);
+    }));
+}
@@ -0,0 +1,71 @@
+import * as crypto from 'crypto';
+import express from 'express';
+
+// xterm.js and its fit addon are loaded from here by public/index.html
+export const CDN_ORIGIN = 'https://cdn.jsdelivr.net';
+
+/**
+ * Normalize an origin given on the command line (--allow-origin), e.g. "https://app.example.com"
+ */
+export function parseAllowedOrigin(value: string): string {
+    let url: URL;
+    try {
+        url = new URL(value.trim());
+    } catch {
+        throw new Error(`Invalid origin: ${value}`);
+    }
+    if ((url.protocol !== 'https:' && url.protocol !== 'http:') || url.pathname !== '/' || url.search || url.hash) {
+        throw new Error(`Invalid origin: ${value} (expected e.g. https://app.example.com)`);
+    }
+    return url.origin;
+}
+
+/**
+ * Content-Security-Policy for gogogo's pages. Inline <script> blocks (the login page) need the
+ * nonce; inline styles stay allowed because xterm.js and the client set them at runtime.
+ */
+export function buildContentSecurityPolicy(nonce: string, connectSources: string[]): string {
+    return [
+        "default-src 'self'",
+        `script-src 'self' ${CDN_ORIGIN} 'nonce-${nonce}'`,
+        `style-src 'self' 'unsafe-inline' ${CDN_ORIGIN}`,
+        "img-src 'self' data:",
+        `connect-src 'self' ${connectSources.join(' ')}`.trimEnd(),
+        "object-src 'none'",
+        "base-uri 'none'",
+        "form-action 'self'",
+        "frame-ancestors 'none'",
+    ].join('; ');
+}
+
+export interface SecurityHeaderOptions {
+    // Whether the browser reached us over HTTPS (directly or through the tunnel)
+    isSecure: (req: express.Request) => boolean;
+    // Extra connect-src entries for this request, e.g. the tunnel's wss:// origin
+    connectSources: (req: express.Request) => string[];
+}
+
+/**
+ * Middleware that sets CSP and the other hardening headers on every response. The CSP
+ * nonce for inline scripts is left in res.locals.cspNonce.
+ */
+export function securityHeaders(options: SecurityHeaderOptions): express.RequestHandler {
+    return (req, res, next) => {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        res.locals.cspNonce = nonce;
+
+        res.setHeader('Content-Security-Policy', buildContentSecurityPolicy(nonce, options.connectSources(req)));
+        res.setHeader('X-Frame-Options', 'DENY');
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        // Pairing tokens and keys live in the fragment, which is never sent; nothing else should leak either
+        res.setHeader('Referrer-Policy', 'no-referrer');
+        // Voice input needs the microphone; nothing needs the rest
+        res.setHeader('Permissions-Policy', 'microphone=(self), camera=(), geolocation=(), payment=(), usb=()');
+        res.setHeader('Cross-Origin-Opener-Policy', 'same-origin');
+        res.setHeader('Cross-Origin-Resource-Policy', 'same-origin');
+        if (options.isSecure(req)) {
+            res.setHeader('Strict-Transport-Security', 'max-age=31536000');
+        }
+        next();
+    };
+}
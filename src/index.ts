@@ -1,10 +1,28 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { startSession } from './session';
+import { startSession, displayQRCode, displayTOTPEnrollment, RESTART_POLICIES, RestartPolicy } from './session';
 import { getConfig, setConfig } from './config';
+import {
+    spawnDetachedSession, listSessions, findSession, attachSession, killSession, requestPairingURL,
+    requestInvite, requestInvites, requestRevokeInvite,
+} from './daemon';
+import { InviteSummary } from './web-server';
+import { parseInviteRole } from './invites';
+import { replayRecording } from './recorder';
+import { parseSize } from './scrollback';
+import { parseSizePolicy, SizePolicy } from './size-policy';
+import { parseDuration } from './auth';
+import { loadOrCreateTOTPSecret, resetTOTPSecret } from './totp';
+import { listApprovedDevices, removeApprovedDevice } from './devices';
+import { readAudit, AuditEntry } from './audit';
+import { listUsers, addUser, removeUser } from './users';
+import { parseProxyHosts } from './proxy-guard';
+import { parseAllowedOrigin } from './http-security';
+import { DEFAULT_GUARD_PATTERNS, compileGuardPatterns } from './input-guard';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as readline from 'readline';
 
 // Read version from package.json
 const packageJsonPath = path.join(__dirname, '..', 'package.json');
@@ -13,6 +31,11 @@ const version = packageJson.version;
 
 const program = new Command();
 
+// Lets an option be given more than once
+function collect(value: string, previous: string[]): string[] {
+    return previous.concat([value]);
+}
+
 program
     .name('gogogo')
     .description('gogogo - Forward Claude Code to your mobile device')
@@ -24,21 +47,495 @@ program
     .argument('[command...]', 'Command to run (default: none, opens terminal only)')
     .option('-n, --name <name>', 'Machine name to display', process.env.HOSTNAME || 'My Computer')
     .option('--pin <pin>', 'Set a 6-digit PIN for web access security (default: no PIN, direct access)')
+    .option('--viewer-pin <pin>', 'Set a second 6-digit PIN that only allows watching (requires --pin)')
+    .option('--totp', 'Require a code from an authenticator app to log in (together with --pin if given)')
+    .option('--approve-devices', 'Ask in this terminal before a new browser may connect')
+    .option('--session-ttl <duration>', 'How long a web login lasts, e.g. 30m, 12h or 7d (default: 24h)')
+    .option('--idle-lock <duration>', 'Lock a browser that sends no input for this long, e.g. 10m; it must log in again')
     .option('--debug-asr', 'Enable verbose ASR (voice recognition) logging')
     .option('-g, --gateway <url>', 'Vortex gateway URL (default: https://vortex.futuretech.social)')
+    .option('--detach', 'Run the session in the background (see `gogogo attach`, `ls` and `kill`)')
+    .option('--record <file>', 'Record the session in asciicast v2 format (bare names go to ~/.codingin/recordings)')
+    .option('--scrollback <size>', 'Output history kept per terminal, e.g. 512kb or 4mb (default: 1mb)')
+    .option('--size-policy <policy>', 'Terminal sizing: min, latest-active, local or fixed:COLSxROWS (default: min)')
+    .option('--restart <policy>', 'Restart the command when it exits: never, on-failure or always (default: never)')
+    .option('--keep-alive', 'Keep the session up after the command exits so it can be restarted from the web UI')
+    .option('--no-audit', 'Do not write logins, connections and remote input to ~/.codingin/audit.jsonl')
+    .option('--guard', 'Hold dangerous-looking lines typed from the web (rm -rf, git push --force, DROP TABLE, ...) until confirmed')
+    .option('--guard-pattern <regex>', 'Also hold lines matching this pattern (repeatable, implies --guard)', collect, [])
+    .option('--e2e', 'Encrypt terminal traffic end to end; the key is only in the QR code, never sent through the tunnel')
+    .option('--proxy-hosts <hosts>', 'Comma-separated hosts the ModelScope proxy may reach (default: api-inference.modelscope.cn)')
+    .option('--proxy-allow-private', 'Let the ModelScope proxy reach loopback and private network addresses')
+    .option('--allow-origin <origin>', 'Also let pages from this origin call the API with the login cookie, e.g. https://app.example.com (repeatable)', collect, [])
+    .option('--audit-input', 'Also log the keystrokes typed from the web, not just how many; they can contain passwords')
     .allowUnknownOption(true)
     .action(async (command, options) => {
         console.log('');
         console.log('  🚀 gogogo - Coding anywhere in your pocket');
         console.log('');
 
+        let scrollbackBytes: number | undefined;
+        let sizePolicy: SizePolicy | undefined;
+        let sessionTTL: number | undefined;
+        let idleLock: number | undefined;
+        let proxyHosts: string[] | undefined;
+        let guardPatterns: string[] | undefined;
+        let allowOrigins: string[] | undefined;
+        try {
+            if (options.sessionTtl) {
+                sessionTTL = parseDuration(options.sessionTtl);
+            }
+            if (options.idleLock) {
+                idleLock = parseDuration(options.idleLock);
+            }
+            if (options.guard || options.guardPattern.length > 0) {
+                guardPatterns = [...DEFAULT_GUARD_PATTERNS, ...options.guardPattern];
+                compileGuardPatterns(guardPatterns);
+            }
+            if (options.proxyHosts) {
+                proxyHosts = parseProxyHosts(options.proxyHosts);
+            }
+            if (options.allowOrigin.length > 0) {
+                allowOrigins = options.allowOrigin.map(parseAllowedOrigin);
+            }
+            if (options.scrollback) {
+                scrollbackBytes = parseSize(options.scrollback);
+            }
+            if (options.sizePolicy) {
+                sizePolicy = parseSizePolicy(options.sizePolicy);
+            }
+            if (options.restart && !RESTART_POLICIES.includes(options.restart)) {
+                throw new Error(`Invalid restart policy: ${options.restart} (expected ${RESTART_POLICIES.join(', ')})`);
+            }
+            if (options.approveDevices && options.detach) {
+                throw new Error('--approve-devices needs a terminal to approve from and cannot be used with --detach');
+            }
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+
+        if (options.detach) {
+            try {
+                // Enroll here, where the QR code can be seen; the daemon loads the stored secret
+                if (options.totp) {
+                    const { secret, created } = loadOrCreateTOTPSecret();
+                    if (created) {
+                        displayTOTPEnrollment(secret, options.name);
+                    }
+                }
+                const record = await spawnDetachedSession(process.argv.slice(1));
+                displayQRCode(await requestPairingURL(record));
+                if (options.pin) {
+                    console.log(`    🔐 PIN for web access: ${options.pin}`);
+                }
+                if (options.viewerPin) {
+                    console.log(`    👀 Viewer PIN (read-only): ${options.viewerPin}`);
+                }
+                if (options.totp) {
+                    console.log('    🔑 Authenticator code required to log in');
+                }
+                if (options.e2e) {
+                    console.log('    🔒 End-to-end encrypted: open the link from the QR code, it carries the key');
+                }
+                console.log(`  Session ${record.id} running in the background (pid ${record.pid}).`);
+                console.log(`  Attach with: gogogo attach ${record.id}`);
+                console.log('');
+            } catch (error) {
+                console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+                process.exit(1);
+            }
+            return;
+        }
+
         // PIN is optional - if not provided, no authentication required
         await startSession(options.name, options.pin, command, {
             debugAsr: options.debugAsr,
-            gatewayUrl: options.gateway
+            gatewayUrl: options.gateway,
+            daemonId: process.env.GOGOGO_DAEMON_ID,
+            recordFile: options.record,
+            scrollbackBytes,
+            sizePolicy,
+            restartPolicy: options.restart as RestartPolicy | undefined,
+            keepAlive: options.keepAlive,
+            viewerPin: options.viewerPin,
+            sessionTTL,
+            idleLock,
+            totp: options.totp,
+            approveDevices: options.approveDevices,
+            audit: options.audit,
+            auditInput: options.auditInput,
+            proxyHosts,
+            proxyAllowPrivate: options.proxyAllowPrivate,
+            e2e: options.e2e,
+            guardPatterns,
+            allowOrigins,
         });
     });
 
+program
+    .command('totp')
+    .description('Show the enrollment QR code for --totp logins')
+    .option('-n, --name <name>', 'Account name shown in the authenticator app', process.env.HOSTNAME || 'My Computer')
+    .option('--reset', 'Generate a new secret; codes from the old one stop working')
+    .action((options) => {
+        try {
+            const secret = options.reset ? resetTOTPSecret() : loadOrCreateTOTPSecret().secret;
+            displayTOTPEnrollment(secret, options.name);
+            if (options.reset) {
+                console.log('  New secret saved. Restart running sessions to use it.');
+                console.log('');
+            }
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('devices')
+    .description('List devices approved with --approve-devices')
+    .option('--remove <id>', 'Forget a device (by id prefix), so it has to be approved again')
+    .action((options) => {
+        if (options.remove) {
+            const removed = removeApprovedDevice(options.remove);
+            if (removed === 0) {
+                console.error(`  ✗ No approved device matching "${options.remove}"`);
+                process.exit(1);
+            }
+            console.log(`Removed ${removed} device${removed === 1 ? '' : 's'}.`);
+            return;
+        }
+
+        const devices = listApprovedDevices();
+        if (devices.length === 0) {
+            console.log('No approved devices.');
+            return;
+        }
+        for (const device of devices) {
+            const approved = new Date(device.approvedAt).toLocaleString();
+            console.log(`${device.fingerprint.slice(0, 12)}  ${device.label.padEnd(16)}  approved ${approved}`);
+        }
+    });
+
+/**
+ * Read a password without echoing it. Piped input is read as a single line.
+ */
+function readPassword(prompt: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const stdin = process.stdin;
+        if (!stdin.isTTY) {
+            const lines = readline.createInterface({ input: stdin });
+            lines.once('line', (line) => {
+                resolve(line);
+                lines.close();
+            });
+            lines.once('close', () => resolve(''));
+            return;
+        }
+
+        let value = '';
+        const finish = () => {
+            stdin.off('data', onData);
+            stdin.setRawMode(false);
+            stdin.pause();
+            process.stdout.write('\n');
+        };
+        const onData = (chunk: string) => {
+            for (const char of chunk) {
+                if (char === '\r' || char === '\n') {
+                    finish();
+                    resolve(value);
+                    return;
+                }
+                if (char === '\x03') {
+                    finish();
+                    reject(new Error('Cancelled'));
+                    return;
+                }
+                if (char === '\x7f' || char === '\b') {
+                    value = value.slice(0, -1);
+                } else if (char >= ' ') {
+                    value += char;
+                }
+            }
+        };
+
+        process.stdout.write(prompt);
+        stdin.setRawMode(true);
+        stdin.setEncoding('utf-8');
+        stdin.on('data', onData);
+        stdin.resume();
+    });
+}
+
+const user = program
+    .command('user')
+    .description('Manage named users who log in with a username and password');
+
+user
+    .command('add')
+    .description('Add a user, or change an existing user\'s password and role')
+    .argument('<name>', 'Username')
+    .option('--role <role>', 'owner (full control), operator (can type, but not manage the session) or viewer (watch only)', 'owner')
+    .action(async (name, options) => {
+        try {
+            if (options.role !== 'owner' && options.role !== 'operator' && options.role !== 'viewer') {
+                throw new Error(`Invalid role: ${options.role} (expected owner, operator or viewer)`);
+            }
+            const password = await readPassword('Password: ');
+            if (process.stdin.isTTY && password !== await readPassword('Repeat password: ')) {
+                throw new Error('Passwords do not match');
+            }
+            const created = await addUser(name, password, options.role);
+            console.log(`${created ? 'Added' : 'Updated'} ${name.trim().toLowerCase()} (${options.role}).`);
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+
+user
+    .command('remove')
+    .description('Remove a user; their logins stop working, open terminals stay until they reconnect')
+    .argument('<name>', 'Username')
+    .action((name) => {
+        if (!removeUser(name)) {
+            console.error(`  ✗ No user named "${name}"`);
+            process.exit(1);
+        }
+        console.log(`Removed ${name.trim().toLowerCase()}.`);
+    });
+
+user
+    .command('list')
+    .description('List users')
+    .action(() => {
+        const users = listUsers();
+        if (users.length === 0) {
+            console.log('No users. Add one with `gogogo user add <name>`.');
+            return;
+        }
+        for (const entry of users) {
+            const created = new Date(entry.createdAt).toLocaleString();
+            console.log(`${entry.name.padEnd(16)}  ${entry.role.padEnd(8)}  added ${created}`);
+        }
+    });
+
+/**
+ * Accepts a duration back from now ("2h", "7d") or anything Date.parse understands
+ */
+function parseSince(value: string): number {
+    try {
+        return Date.now() - parseDuration(value);
+    } catch {
+        const time = Date.parse(value);
+        if (isNaN(time)) {
+            throw new Error(`Invalid --since value: ${value} (expected e.g. 2h, 7d or 2024-05-01)`);
+        }
+        return time;
+    }
+}
+
+function formatAuditEntry(entry: AuditEntry): string {
+    const { time, event, pid, client, ip, ...details } = entry;
+    const detailText = Object.entries(details)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${typeof value === 'string' ? JSON.stringify(value) : value}`)
+        .join(' ');
+    const when = new Date(time).toLocaleString();
+    return `${when}  ${event.padEnd(16)}  ${(client || '-').padEnd(22)}  ${(ip || '-').padEnd(15)}  ${detailText}`.trimEnd();
+}
+
+program
+    .command('audit')
+    .description('Show the audit log of logins, connections and remote input')
+    .option('--since <when>', 'Only entries newer than this, e.g. 30m, 2d or 2024-05-01')
+    .option('--client <id>', 'Only entries for this client id (prefix)')
+    .option('--user <name>', 'Only entries for this user')
+    .option('--event <type>', 'Only entries of this type, e.g. login_failed or input')
+    .option('--json', 'Print the raw JSON lines')
+    .action(async (options) => {
+        try {
+            const entries = await readAudit({
+                since: options.since ? parseSince(options.since) : undefined,
+                client: options.client,
+                user: options.user,
+                event: options.event,
+            });
+            if (entries.length === 0) {
+                console.log('No audit entries.');
+                return;
+            }
+            for (const entry of entries) {
+                console.log(options.json ? JSON.stringify(entry) : formatAuditEntry(entry));
+            }
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('attach')
+    .description('Attach this terminal to a background session (detach with Ctrl-])')
+    .argument('[id]', 'Session id (optional when only one session is running)')
+    .action(async (id) => {
+        try {
+            const record = findSession(id);
+            await attachSession(record);
+            process.exit(0);
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('ls')
+    .description('List running gogogo sessions')
+    .action(() => {
+        const sessions = listSessions();
+        if (sessions.length === 0) {
+            console.log('No running sessions.');
+            return;
+        }
+
+        for (const session of sessions) {
+            const mode = session.detached ? 'detached' : 'foreground';
+            const started = new Date(session.startedAt).toLocaleString();
+            console.log(`${session.id}  ${mode.padEnd(10)}  pid ${session.pid}  ${session.command}`);
+            console.log(`        ${session.tunnelUrl}  (started ${started})`);
+        }
+    });
+
+program
+    .command('pair')
+    .description('Print a QR code that logs one device in without the PIN')
+    .argument('[id]', 'Session id (optional when only one session is running)')
+    .action(async (id) => {
+        try {
+            const record = findSession(id);
+            displayQRCode(await requestPairingURL(record));
+            console.log('  The link works once, for 5 minutes.');
+            console.log('');
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+
+function inviteStatus(invite: InviteSummary): string {
+    if (invite.revokedAt) {
+        return 'revoked';
+    }
+    if (invite.expiresAt <= Date.now()) {
+        return 'expired';
+    }
+    return invite.active ? 'active' : 'used up';
+}
+
+const invite = program
+    .command('invite')
+    .description('Print a link and QR code that logs people in as viewers or operators until it expires')
+    .argument('[id]', 'Session id (optional when only one session is running)')
+    .option('--role <role>', 'viewer (watch only) or operator (can type, but not manage the session)', 'viewer')
+    .option('--ttl <duration>', 'How long the link and the logins it gives last, e.g. 30m, 1h, 2d', '1h')
+    .option('--uses <count>', 'How many times the link can be used (default: until it expires)')
+    .action(async (id, options) => {
+        try {
+            const request = {
+                role: parseInviteRole(options.role),
+                ttl: parseDuration(options.ttl),
+                uses: options.uses === undefined ? undefined : Number(options.uses),
+            };
+            const { url, invite: created } = await requestInvite(findSession(id), request);
+            displayQRCode(url);
+            const uses = created.maxUses === undefined ? '' : `, ${created.maxUses} use${created.maxUses === 1 ? '' : 's'}`;
+            console.log(`  Invite ${created.id}: ${created.role} access until ${new Date(created.expiresAt).toLocaleString()}${uses}.`);
+            console.log(`  Revoke it with \`gogogo invite revoke ${created.id}\`.`);
+            console.log('');
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+
+invite
+    .command('list')
+    .description('List the invites made since the session started and how often they were used')
+    .argument('[id]', 'Session id (optional when only one session is running)')
+    .action(async (id) => {
+        try {
+            const invites = await requestInvites(findSession(id));
+            if (invites.length === 0) {
+                console.log('No invites. Make one with `gogogo invite --role viewer`.');
+                return;
+            }
+            for (const entry of invites) {
+                const uses = `${entry.uses}${entry.maxUses === undefined ? '' : `/${entry.maxUses}`} used`;
+                const until = new Date(entry.expiresAt).toLocaleString();
+                console.log(`${entry.id}  ${entry.role.padEnd(8)}  ${inviteStatus(entry).padEnd(7)}  ${uses.padEnd(9)}  ${entry.logins} logged in  until ${until}  by ${entry.createdBy}`);
+            }
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+
+invite
+    .command('revoke')
+    .description('Revoke an invite and log out everyone who used it')
+    .argument('<invite>', 'Invite id (or a unique prefix)')
+    .argument('[id]', 'Session id (optional when only one session is running)')
+    .action(async (inviteId, id) => {
+        try {
+            const revoked = await requestRevokeInvite(findSession(id), inviteId);
+            console.log(`Revoked invite ${revoked.id}.`);
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('kill')
+    .description('Stop a running gogogo session')
+    .argument('[id]', 'Session id (optional when only one session is running)')
+    .option('-a, --all', 'Stop all running sessions')
+    .action(async (id, options) => {
+        try {
+            const sessions = options.all ? listSessions() : [findSession(id)];
+            for (const session of sessions) {
+                await killSession(session);
+                console.log(`Stopped session ${session.id}`);
+            }
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('replay')
+    .description('Play back a session recording')
+    .argument('<file>', 'Recording file, or the name of one in ~/.codingin/recordings')
+    .option('-s, --speed <factor>', 'Playback speed multiplier', '1')
+    .option('-i, --idle-limit <seconds>', 'Shorten pauses longer than this')
+    .action(async (file, options) => {
+        try {
+            await replayRecording(file, {
+                speed: parseFloat(options.speed),
+                idleLimit: options.idleLimit ? parseFloat(options.idleLimit) : undefined,
+            });
+            console.log('');
+            console.log('  Replay finished.');
+        } catch (error) {
+            console.error(`  ✗ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+    });
+
 program
     .command('config')
     .description('Configure gogogo')
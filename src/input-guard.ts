@@ -0,0 +1,260 @@
+import * as crypto from 'crypto';
+import { promptLocalKey, LocalPromptCancel } from './pty';
+import { audit, isInputRedacted } from './audit';
+
+// Matched case-insensitively against each line typed from the web
+export const DEFAULT_GUARD_PATTERNS = [
+    '\\brm\\s+(-\\S+\\s+)*-[a-z]*(rf|fr)',
+    '\\bgit\\s+push\\b.*(\\s--force\\b|\\s-f\\b|\\s--force-with-lease\\b)',
+    '\\bgit\\s+reset\\s+--hard\\b',
+    '\\bdrop\\s+(table|database|schema)\\b',
+    '\\btruncate\\s+table\\b',
+    '\\bmkfs(\\.\\w+)?\\b',
+    '\\bdd\\b.*\\bof=/dev/',
+];
+
+// Sent instead of Enter when a line is refused, to clear what was typed (readline's kill-line)
+const CLEAR_LINE = '\x15';
+
+export interface GuardClient {
+    id: string;
+    ip: string;
+    user?: string;
+}
+
+export interface GuardRequest {
+    id: string;
+    client: GuardClient;
+    sessionId: string;
+    line: string;
+    pattern: string;
+}
+
+export interface GuardCallbacks {
+    // Pass input on to the terminal
+    write: (data: string) => void;
+    // Ask the browser that typed the line to confirm it too
+    confirm: (request: GuardRequest) => void;
+    // Tell it the line was decided, from wherever
+    resolved: (request: GuardRequest, approved: boolean) => void;
+}
+
+interface HeldLine {
+    request: GuardRequest;
+    // The Enter that completed the line, and whatever followed it in the same message
+    enter: string;
+    rest: string;
+}
+
+interface LineState {
+    line: string;
+    // Inside an escape sequence (arrow keys etc.), which isn't part of the line
+    escape: '' | 'start' | 'csi' | 'ss3';
+    held: HeldLine | null;
+    // Input from the same client that arrived while a line was held
+    queued: string;
+    callbacks: GuardCallbacks;
+}
+
+let patterns: RegExp[] = [];
+// Per client and terminal
+const lineStates: Map<string, LineState> = new Map();
+const heldRequests: Map<string, LineState> = new Map();
+
+// Withdraws a held line's question in the local terminal, by request id
+const hostPrompts: Map<string, LocalPromptCancel> = new Map();
+
+/**
+ * Compile patterns, throwing on the first invalid one
+ */
+export function compileGuardPatterns(sources: string[]): RegExp[] {
+    return sources.map((source) => {
+        try {
+            return new RegExp(source, 'i');
+        } catch {
+            throw new Error(`Invalid guard pattern: ${source}`);
+        }
+    });
+}
+
+/**
+ * Turn the guard on with these patterns, or off with null
+ */
+export function configureInputGuard(sources: string[] | null): void {
+    patterns = sources ? compileGuardPatterns(sources) : [];
+    lineStates.clear();
+    heldRequests.clear();
+    hostPrompts.forEach((cancel) => cancel());
+    hostPrompts.clear();
+}
+
+export function isInputGuardEnabled(): boolean {
+    return patterns.length > 0;
+}
+
+function describeGuardClient(client: GuardClient): string {
+    return client.user ? `${client.user} (${client.ip})` : `${client.id} (${client.ip})`;
+}
+
+function matchPattern(line: string): RegExp | undefined {
+    return patterns.find((pattern) => pattern.test(line));
+}
+
+function auditDecision(event: string, request: GuardRequest, fields: Record<string, unknown> = {}): void {
+    audit(event, {
+        client: request.client.id,
+        ip: request.client.ip,
+        user: request.client.user,
+        session: request.sessionId,
+        pattern: request.pattern,
+        // Lines are input, so --audit-redact leaves them out
+        ...(isInputRedacted() ? {} : { line: request.line }),
+        ...fields,
+    });
+}
+
+/**
+ * Pass remote input through, holding back the Enter of any line that matches a pattern until
+ * it is approved. Characters are written as they come so programs keep echoing them; only
+ * the Enter (and what follows it) waits.
+ */
+export function guardInput(client: GuardClient, sessionId: string, data: string, callbacks: GuardCallbacks): void {
+    const key = `${client.id}\n${sessionId}`;
+    let state = lineStates.get(key);
+    if (!state) {
+        state = { line: '', escape: '', held: null, queued: '', callbacks };
+        lineStates.set(key, state);
+    }
+
+    if (state.held) {
+        state.queued += data;
+        return;
+    }
+
+    for (let i = 0; i < data.length; i++) {
+        const char = data[i];
+
+        if (state.escape === 'start') {
+            state.escape = char === '[' ? 'csi' : char === 'O' ? 'ss3' : '';
+            continue;
+        }
+        if (state.escape === 'ss3') {
+            state.escape = '';
+            continue;
+        }
+        if (state.escape === 'csi') {
+            // CSI sequences end with a byte in @-~
+            if (char >= '@' && char <= '~') state.escape = '';
+            continue;
+        }
+
+        if (char === '\r' || char === '\n') {
+            const line = state.line;
+            state.line = '';
+            const pattern = matchPattern(line);
+            if (!pattern) continue;
+
+            callbacks.write(data.slice(0, i));
+            const request: GuardRequest = {
+                id: crypto.randomBytes(8).toString('hex'),
+                client,
+                sessionId,
+                line: line.trim(),
+                pattern: pattern.source,
+            };
+            state.held = { request, enter: char, rest: data.slice(i + 1) };
+            heldRequests.set(request.id, state);
+
+            console.log(`  [Guard] Holding "${request.line}" from ${describeGuardClient(client)}`);
+            auditDecision('guard_held', request);
+            callbacks.confirm(request);
+            askHost(request);
+            return;
+        }
+
+        if (char === '\x1b') {
+            state.escape = 'start';
+        } else if (char === '\x7f' || char === '\b') {
+            state.line = state.line.slice(0, -1);
+        } else if (char === '\x15' || char === '\x03') {
+            // Ctrl-U / Ctrl-C throw the line away
+            state.line = '';
+        } else if (char >= ' ') {
+            state.line += char;
+        }
+    }
+
+    callbacks.write(data);
+}
+
+/**
+ * Release or refuse a held line. `by` says who decided, for the log. Returns false if the
+ * request is unknown (already answered) or belongs to a different client.
+ */
+export function answerGuard(id: string, approved: boolean, by: string, clientId?: string): boolean {
+    const state = heldRequests.get(id);
+    if (!state || !state.held || (clientId && state.held.request.client.id !== clientId)) {
+        return false;
+    }
+    heldRequests.delete(id);
+
+    const held = state.held;
+    state.held = null;
+    withdrawHostPrompt(held.request);
+
+    console.log(`  [Guard] ${approved ? 'Approved' : 'Refused'} "${held.request.line}" (${by})`);
+    auditDecision(approved ? 'guard_approved' : 'guard_denied', held.request, { by });
+
+    state.callbacks.write(approved ? held.enter : CLEAR_LINE);
+    state.callbacks.resolved(held.request, approved);
+    const rest = held.rest + state.queued;
+    state.queued = '';
+    if (rest) {
+        guardInput(held.request.client, held.request.sessionId, rest, state.callbacks);
+    }
+    return true;
+}
+
+/**
+ * Forget a disconnected client, refusing anything it still had held
+ */
+export function releaseGuardClient(clientId: string): void {
+    lineStates.forEach((state, key) => {
+        if (!key.startsWith(`${clientId}\n`)) return;
+        if (state.held) {
+            const { request } = state.held;
+            heldRequests.delete(request.id);
+            state.held = null;
+            withdrawHostPrompt(request);
+            // Don't leave the line for the next Enter typed elsewhere
+            state.callbacks.write(CLEAR_LINE);
+            console.log(`  [Guard] Refused "${request.line}" (client disconnected)`);
+            auditDecision('guard_denied', request, { by: 'disconnect' });
+        }
+        lineStates.delete(key);
+    });
+}
+
+function askHost(request: GuardRequest): void {
+    // Without a local terminal only the web confirmation can release the line
+    const cancel = promptLocalKey({
+        ask: () => process.stdout.write(`\r\n  ⚠️  ${describeGuardClient(request.client)} wants to run: ${request.line}\r\n  Allow? [y/N] `),
+        answer: (key) => {
+            hostPrompts.delete(request.id);
+            const approved = key.toLowerCase() === 'y';
+            process.stdout.write(approved ? 'yes\r\n' : 'no\r\n');
+            answerGuard(request.id, approved, 'host');
+        },
+    });
+    if (cancel) {
+        hostPrompts.set(request.id, cancel);
+    }
+}
+
+function withdrawHostPrompt(request: GuardRequest): void {
+    const cancel = hostPrompts.get(request.id);
+    if (cancel) {
+        hostPrompts.delete(request.id);
+        cancel('answered');
+    }
+}
@@ -0,0 +1,122 @@
+import * as crypto from 'crypto';
+import { ClientRole, safeEqual } from './auth';
+
+export const DEFAULT_INVITE_TTL = 60 * 60 * 1000;
+export const MAX_INVITE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+// Invites can't make owners; the master PIN and owner accounts are for that
+export type InviteRole = Exclude<ClientRole, 'owner'>;
+
+export interface Invite {
+    id: string;
+    role: InviteRole;
+    createdAt: number;
+    expiresAt: number;
+    // Who made it: 'cli', 'api', or a username
+    createdBy: string;
+    // Unlimited when unset
+    maxUses?: number;
+    uses: number;
+    lastUsedAt?: number;
+    revokedAt?: number;
+}
+
+// Signs invite links. Like login sessions, invites don't survive a restart.
+let secret = crypto.randomBytes(32);
+const invites: Map<string, Invite> = new Map();
+
+export function parseInviteRole(value: string): InviteRole {
+    if (value !== 'viewer' && value !== 'operator') {
+        throw new Error(`Invalid role: ${value} (expected viewer or operator)`);
+    }
+    return value;
+}
+
+function sign(invite: Invite): string {
+    return crypto.createHmac('sha256', secret)
+        .update(`${invite.id}.${invite.role}.${invite.expiresAt}`)
+        .digest('base64url');
+}
+
+/**
+ * Forget all invites and start signing with a new secret
+ */
+export function resetInvites(): void {
+    secret = crypto.randomBytes(32);
+    invites.clear();
+}
+
+/**
+ * Mint an invite. The token is `<invite id>.<signature>`; the role and expiry it
+ * was signed with stay on the server.
+ */
+export function createInvite(role: InviteRole, ttl: number, createdBy: string, maxUses?: number): { token: string; invite: Invite } {
+    if (ttl <= 0 || ttl > MAX_INVITE_TTL) {
+        throw new Error('Invites last at most 7 days');
+    }
+    if (maxUses !== undefined && (!Number.isInteger(maxUses) || maxUses < 1)) {
+        throw new Error('Uses must be a positive whole number');
+    }
+
+    const now = Date.now();
+    const invite: Invite = {
+        id: crypto.randomBytes(4).toString('hex'),
+        role,
+        createdAt: now,
+        expiresAt: now + ttl,
+        createdBy,
+        maxUses,
+        uses: 0,
+    };
+    invites.set(invite.id, invite);
+    return { token: `${invite.id}.${sign(invite)}`, invite };
+}
+
+export function isInviteActive(invite: Invite): boolean {
+    return !invite.revokedAt && invite.expiresAt > Date.now()
+        && (invite.maxUses === undefined || invite.uses < invite.maxUses);
+}
+
+/**
+ * Check an invite token and count a use. Returns the invite, or an error to show.
+ */
+export function redeemInvite(token: unknown): { invite: Invite } | { error: string } {
+    const [id, signature] = typeof token === 'string' ? token.split('.') : [];
+    const invite = id ? invites.get(id) : undefined;
+    if (!invite || !signature || !safeEqual(signature, sign(invite))) {
+        return { error: 'This invite link is not valid' };
+    }
+    if (!isInviteActive(invite)) {
+        return { error: invite.revokedAt || invite.expiresAt <= Date.now()
+            ? 'This invite link has expired or was revoked'
+            : 'This invite link has been used up' };
+    }
+
+    invite.uses++;
+    invite.lastUsedAt = Date.now();
+    return { invite };
+}
+
+export function getInvite(id: string): Invite | null {
+    return invites.get(id) || null;
+}
+
+/**
+ * All invites made since the last restart, newest first, including used-up, expired and revoked ones
+ */
+export function listInvites(): Invite[] {
+    return Array.from(invites.values()).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Revoke an invite by id or unique id prefix. Returns it, or null if none matched.
+ */
+export function revokeInvite(idPrefix: string): Invite | null {
+    const matches = Array.from(invites.values()).filter((invite) => invite.id.startsWith(idPrefix));
+    const invite = invites.get(idPrefix) || (matches.length === 1 ? matches[0] : null);
+    if (!invite) {
+        return null;
+    }
+    invite.revokedAt = invite.revokedAt || Date.now();
+    return invite;
+}
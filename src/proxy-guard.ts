@@ -0,0 +1,162 @@
+import * as dns from 'dns';
+import * as net from 'net';
+import type { LookupAddressEntry } from 'axios';
+
+export const DEFAULT_PROXY_HOSTS = ['api-inference.modelscope.cn'];
+
+// Upstream calls taking longer than this are abandoned
+export const PROXY_TIMEOUT = 30 * 1000;
+// Largest request or response body passed through
+export const PROXY_MAX_BYTES = 10 * 1024 * 1024;
+
+// Headers that describe a single connection and must not be forwarded (RFC 9110 section 7.6.1),
+// plus ones the HTTP client sets itself
+const HOP_BY_HOP_HEADERS = new Set([
+    'connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization', 'proxy-connection',
+    'te', 'trailer', 'transfer-encoding', 'upgrade', 'host', 'content-length',
+]);
+
+export interface ProxyPolicy {
+    // Hostnames the proxy may reach; "*.example.com" also matches subdomains
+    allowedHosts: string[];
+    // Allow loopback, private and link-local addresses
+    allowPrivate: boolean;
+}
+
+/**
+ * Parse a comma-separated host list (from --proxy-hosts)
+ */
+export function parseProxyHosts(value: string): string[] {
+    const hosts = value.split(',').map((host) => host.trim().toLowerCase()).filter(Boolean);
+    if (hosts.length === 0) {
+        throw new Error(`Invalid proxy host list: ${value}`);
+    }
+    return hosts;
+}
+
+function isHostAllowed(hostname: string, allowedHosts: string[]): boolean {
+    return allowedHosts.some((allowed) => {
+        if (allowed.startsWith('*.')) {
+            return hostname.endsWith(allowed.slice(1));
+        }
+        return hostname === allowed;
+    });
+}
+
+function ipv4InRange(ip: string, base: string, bits: number): boolean {
+    const toNumber = (value: string) => value.split('.').reduce((n, octet) => (n << 8) + parseInt(octet, 10), 0) >>> 0;
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((toNumber(ip) & mask) >>> 0) === ((toNumber(base) & mask) >>> 0);
+}
+
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3],
+];
+
+/**
+ * Whether an address is loopback, private, link-local or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+    if (net.isIPv4(address)) {
+        return PRIVATE_IPV4_RANGES.some(([base, bits]) => ipv4InRange(address, base, bits));
+    }
+    if (!net.isIPv6(address)) {
+        return false;
+    }
+
+    const ip = address.toLowerCase();
+    // IPv4-mapped (::ffff:10.0.0.1) is checked as IPv4
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+    if (mapped) {
+        return isPrivateAddress(mapped[1]);
+    }
+    return ip === '::' || ip === '::1'
+        || /^f[cd]/.test(ip)           // unique local fc00::/7
+        || /^fe[89ab]/.test(ip)        // link-local fe80::/10
+        || /^ff/.test(ip);             // multicast
+}
+
+/**
+ * Check a URL the browser wants fetched. Throws with the reason it is refused.
+ */
+export function checkProxyURL(value: unknown, policy: ProxyPolicy): URL {
+    if (typeof value !== 'string' || !value) {
+        throw new Error('Missing url');
+    }
+
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        throw new Error('Invalid url');
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error(`Protocol not allowed: ${url.protocol}`);
+    }
+    if (url.username || url.password) {
+        throw new Error('Credentials in the url are not allowed');
+    }
+
+    // URL keeps IPv6 literals in brackets
+    const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if (!isHostAllowed(hostname, policy.allowedHosts)) {
+        throw new Error(`Host not allowed: ${hostname}`);
+    }
+    if (!policy.allowPrivate && net.isIP(hostname) && isPrivateAddress(hostname)) {
+        throw new Error(`Private address not allowed: ${hostname}`);
+    }
+    return url;
+}
+
+/**
+ * Keep only plain string headers that describe the request itself
+ */
+export function sanitizeProxyHeaders(headers: unknown): Record<string, string> {
+    const result: Record<string, string> = {};
+    if (!headers || typeof headers !== 'object') {
+        return result;
+    }
+
+    const entries = Object.entries(headers as Record<string, unknown>);
+    // Headers named in Connection are hop-by-hop too
+    const connection = entries.find(([name]) => name.toLowerCase() === 'connection')?.[1];
+    const listed = new Set(
+        typeof connection === 'string' ? connection.split(',').map((name) => name.trim().toLowerCase()) : []
+    );
+
+    for (const [name, value] of entries) {
+        const lower = name.toLowerCase();
+        if (typeof value !== 'string' || HOP_BY_HOP_HEADERS.has(lower) || listed.has(lower)) {
+            continue;
+        }
+        result[name] = value;
+    }
+    return result;
+}
+
+/**
+ * DNS lookup for the proxy's HTTP client that refuses hostnames resolving to private addresses,
+ * so an allowed name can't be pointed at the internal network. Answers with every address;
+ * axios picks the first one itself unless the socket asked for all of them.
+ */
+export function createGuardedLookup(policy: ProxyPolicy) {
+    return async (hostname: string, options: dns.LookupOptions): Promise<[addresses: LookupAddressEntry[]]> => {
+        const list = await dns.promises.lookup(hostname, { ...options, all: true });
+        if (!policy.allowPrivate) {
+            const blocked = list.find((entry) => isPrivateAddress(entry.address));
+            if (blocked) {
+                throw new Error(`${hostname} resolves to a private address (${blocked.address})`);
+            }
+        }
+        return [list.map(({ address, family }) => ({ address, family: family === 6 ? 6 : 4 }))];
+    };
+}
@@ -8,31 +8,260 @@ export interface PTYOptions {
     command?: string;
     args?: string[];
     cwd?: string;
+    name?: string;
+    // Run without a local terminal (daemon mode); `gogogo attach` supplies one later
+    headless?: boolean;
 }
 
-let ptyProcess: pty.IPty | null = null;
-let dataCallback: ((data: string) => void) | null = null;
-let exitCallback: ((code: number) => void) | null = null;
+export interface PTYSessionInfo {
+    id: string;
+    name: string;
+    command: string;
+    pid: number;
+    cols: number;
+    rows: number;
+    createdAt: number;
+    main: boolean;
+}
+
+interface PTYSession {
+    id: string;
+    name: string;
+    command: string;
+    process: pty.IPty;
+    createdAt: number;
+}
+
+// The main session is the one mirrored to the local terminal
+export const MAIN_SESSION_ID = 'main';
+
+// Ctrl-G in the local terminal starts a gogogo host command instead of going to the
+// program; pressing it twice sends one Ctrl-G through
+export const HOST_KEY_PREFIX = '\x07';
+
+const sessions: Map<string, PTYSession> = new Map();
+let sessionCounter = 0;
+let localInputAttached = false;
+
+const dataCallbacks: Array<(data: string, sessionId: string) => void> = [];
+const exitCallbacks: Array<(code: number, sessionId: string) => void> = [];
+const spawnCallbacks: Array<(sessionId: string) => void> = [];
+const inputCallbacks: Array<(data: string, sessionId: string) => void> = [];
+const resizeCallbacks: Array<(cols: number, rows: number, sessionId: string) => void> = [];
+const localResizeCallbacks: Array<() => void> = [];
+const localInputCallbacks: Array<() => void> = [];
+const hostKeyCallbacks: Map<string, () => void> = new Map();
+let hostPrefixPending = false;
+// Questions for the local terminal, asked one at a time in order; the first may be showing
+const localPrompts: LocalKeyPrompt[] = [];
+let askedPrompt: LocalKeyPrompt | null = null;
 
 // Track local terminal size
 let localCols = 80;
 let localRows = 24;
+let headless = false;
+let localTerminalAttached = true;
+let localLastInputAt = 0;
+let outputPaused = false;
+// Kept so the main command can be started again (see respawnPTY)
+let mainOptions: PTYOptions = {};
 
 // Get local terminal size
 export function getLocalSize(): { cols: number; rows: number } {
     return { cols: localCols, rows: localRows };
 }
 
-export function spawnPTY(options: PTYOptions = {}): pty.IPty {
+/**
+ * Whether a local terminal is taking part in sizing. False for a daemon with nothing attached.
+ */
+export function hasLocalTerminal(): boolean {
+    return localTerminalAttached;
+}
+
+/**
+ * Mark a remote "local" terminal (gogogo attach) as attached or detached
+ */
+export function setLocalTerminalAttached(attached: boolean): void {
+    localTerminalAttached = attached;
+    notifyLocalResize();
+}
+
+/**
+ * Update the local terminal size when it isn't our own stdout (gogogo attach)
+ */
+export function setLocalSize(cols: number, rows: number): void {
+    localCols = cols;
+    localRows = rows;
+    notifyLocalResize();
+}
+
+export function isHeadless(): boolean {
+    return headless;
+}
+
+/**
+ * Add a callback to one of the lists above. Returns a function that removes it again.
+ */
+function subscribe<T>(callbacks: T[], callback: T): () => void {
+    callbacks.push(callback);
+    return () => {
+        const index = callbacks.indexOf(callback);
+        if (index !== -1) {
+            callbacks.splice(index, 1);
+        }
+    };
+}
+
+export function onLocalTerminalResize(callback: () => void): () => void {
+    return subscribe(localResizeCallbacks, callback);
+}
+
+export function onLocalTerminalInput(callback: () => void): () => void {
+    return subscribe(localInputCallbacks, callback);
+}
+
+/**
+ * When the local terminal last sent input (0 if never)
+ */
+export function getLocalLastInputAt(): number {
+    return localLastInputAt;
+}
+
+/**
+ * Write input typed at the local terminal, or at one attached with `gogogo attach`
+ */
+export function writeLocalInput(data: string): void {
+    localLastInputAt = Date.now();
+    writeToPTY(data);
+    localInputCallbacks.forEach((callback) => callback());
+}
+
+/**
+ * Run a callback when the local terminal presses Ctrl-G followed by `key`
+ */
+export function onHostKey(key: string, callback: () => void): void {
+    hostKeyCallbacks.set(key.toLowerCase(), callback);
+}
+
+export interface LocalKeyPrompt {
+    // Print the question; called once earlier prompts have been answered
+    ask: () => void;
+    // The next key pressed in the local terminal after asking
+    answer: (key: string) => void;
+}
+
+/**
+ * Withdraws a queued prompt. If it was showing, `note` (e.g. "answered") is printed after the
+ * question before the next one is asked. Returns false if it had already been answered.
+ */
+export type LocalPromptCancel = (note?: string) => boolean;
+
+/**
+ * Queue a question for the local terminal, answered with the next keypress instead of
+ * going to the program. Returns null when there is no local terminal to ask.
+ */
+export function promptLocalKey(prompt: LocalKeyPrompt): LocalPromptCancel | null {
+    if (headless || !localInputAttached) {
+        return null;
+    }
+    localPrompts.push(prompt);
+    askNextLocalPrompt();
+
+    return (note?: string) => {
+        const index = localPrompts.indexOf(prompt);
+        if (index === -1) {
+            return false;
+        }
+        localPrompts.splice(index, 1);
+        if (askedPrompt === prompt) {
+            askedPrompt = null;
+            if (note) {
+                process.stdout.write(`${note}\r\n`);
+            }
+            askNextLocalPrompt();
+        }
+        return true;
+    };
+}
+
+function askNextLocalPrompt(): void {
+    const next = localPrompts[0];
+    if (next && askedPrompt !== next) {
+        askedPrompt = next;
+        next.ask();
+    }
+}
+
+/**
+ * Pass local stdin to the main session, picking out prompt answers and host commands
+ */
+function handleLocalStdin(data: string): void {
+    if (askedPrompt) {
+        const prompt = askedPrompt;
+        localPrompts.shift();
+        askedPrompt = null;
+        prompt.answer(data);
+        askNextLocalPrompt();
+        return;
+    }
+
+    if (hostKeyCallbacks.size === 0) {
+        writeLocalInput(data);
+        return;
+    }
+
+    let passthrough = '';
+    for (const char of data) {
+        if (hostPrefixPending) {
+            hostPrefixPending = false;
+            if (char === HOST_KEY_PREFIX) {
+                passthrough += char;
+                continue;
+            }
+            const callback = hostKeyCallbacks.get(char.toLowerCase());
+            if (callback) {
+                if (passthrough) {
+                    writeLocalInput(passthrough);
+                    passthrough = '';
+                }
+                callback();
+            }
+            // Any other key cancels the prefix
+            continue;
+        }
+
+        if (char === HOST_KEY_PREFIX) {
+            hostPrefixPending = true;
+        } else {
+            passthrough += char;
+        }
+    }
+
+    if (passthrough) {
+        writeLocalInput(passthrough);
+    }
+}
+
+function notifyLocalResize(): void {
+    // Notify relay to recalculate min size
+    try {
+        onLocalResize();
+    } catch {
+        // Relay might not be initialized yet
+    }
+    localResizeCallbacks.forEach((callback) => callback());
+}
+
+/**
+ * Spawn a PTY process and register it under the given session id
+ */
+function spawnSession(id: string, options: PTYOptions, mirrorLocal: boolean): PTYSession {
     // Default to user's shell
     const shell = process.env.SHELL || '/bin/zsh';
     const command = options.command || shell;
     const args = options.args || [];
-    localCols = options.cols || process.stdout.columns || 80;
-    localRows = options.rows || process.stdout.rows || 24;
     const cwd = options.cwd || process.cwd();
 
-
     // Ensure we have a clean environment with PATH
     const env = {
         ...process.env,
@@ -40,42 +269,66 @@ export function spawnPTY(options: PTYOptions = {}): pty.IPty {
         TERM: 'xterm-256color',
     } as { [key: string]: string };
 
-    ptyProcess = pty.spawn(command, args, {
+    const ptyProcess = pty.spawn(command, args, {
         name: 'xterm-256color',
-        cols: localCols,
-        rows: localRows,
+        cols: options.cols || localCols,
+        rows: options.rows || localRows,
         cwd,
         env,
     });
 
-    // Handle PTY output - forward to both console and callback
-    ptyProcess.onData((data) => {
-        // Write to local terminal (mirror)
-        process.stdout.write(data);
+    const session: PTYSession = {
+        id,
+        name: options.name || (id === MAIN_SESSION_ID ? 'main' : command.split('/').pop() || command),
+        command: [command, ...args].join(' '),
+        process: ptyProcess,
+        createdAt: Date.now(),
+    };
+    sessions.set(id, session);
+    if (outputPaused) {
+        ptyProcess.pause();
+    }
 
-        // Also send to web client via callback
-        if (dataCallback) {
-            dataCallback(data);
+    // Handle PTY output - forward to both console and callbacks
+    ptyProcess.onData((data) => {
+        if (mirrorLocal) {
+            // Write to local terminal (mirror)
+            process.stdout.write(data);
         }
+
+        // Also send to web clients via callbacks
+        dataCallbacks.forEach((callback) => callback(data, id));
     });
 
     // Handle PTY exit
     ptyProcess.onExit(({ exitCode }) => {
-        if (exitCallback) {
-            exitCallback(exitCode);
+        // Only forget the session if it hasn't been replaced in the meantime
+        if (sessions.get(id) === session) {
+            sessions.delete(id);
         }
-        ptyProcess = null;
+        exitCallbacks.forEach((callback) => callback(exitCode, id));
     });
 
+    spawnCallbacks.forEach((callback) => callback(id));
+    return session;
+}
+
+/**
+ * Forward local stdin and terminal resizes to the main session (only done once)
+ */
+function attachLocalTerminal(): void {
+    if (localInputAttached) {
+        return;
+    }
+    localInputAttached = true;
+
     // Forward local stdin to PTY (for local terminal interaction)
     if (process.stdin.isTTY) {
         process.stdin.setRawMode(true);
     }
     process.stdin.resume();
     process.stdin.on('data', (data) => {
-        if (ptyProcess) {
-            ptyProcess.write(data.toString());
-        }
+        handleLocalStdin(data.toString());
     });
 
     // Handle terminal resize from local terminal
@@ -83,35 +336,142 @@ export function spawnPTY(options: PTYOptions = {}): pty.IPty {
         if (process.stdout.columns && process.stdout.rows) {
             localCols = process.stdout.columns;
             localRows = process.stdout.rows;
-            // Notify relay to recalculate min size
-            try {
-                onLocalResize();
-            } catch {
-                // Relay might not be initialized yet
-            }
+            notifyLocalResize();
         }
     });
+}
+
+/**
+ * Spawn the main PTY session, mirrored to the local terminal
+ */
+export function spawnPTY(options: PTYOptions = {}): pty.IPty {
+    mainOptions = options;
+    headless = options.headless || false;
+    localTerminalAttached = !headless;
+    localCols = options.cols || (!headless && process.stdout.columns) || 80;
+    localRows = options.rows || (!headless && process.stdout.rows) || 24;
+
+    const session = spawnSession(MAIN_SESSION_ID, options, !headless);
+    if (!headless) {
+        attachLocalTerminal();
+    }
+
+    return session.process;
+}
+
+/**
+ * Start the main command again after it exited, at the current local size
+ */
+export function respawnPTY(): pty.IPty {
+    if (sessions.has(MAIN_SESSION_ID)) {
+        throw new Error('The main session is still running');
+    }
+    const session = spawnSession(MAIN_SESSION_ID, { ...mainOptions, cols: localCols, rows: localRows }, !headless);
+    return session.process;
+}
+
+/**
+ * Spawn an additional PTY session that is only visible to web clients
+ */
+export function createPTYSession(options: PTYOptions = {}): PTYSessionInfo {
+    const id = `term-${++sessionCounter}`;
+    const session = spawnSession(id, options, false);
+    return toSessionInfo(session);
+}
 
-    return ptyProcess;
+function toSessionInfo(session: PTYSession): PTYSessionInfo {
+    return {
+        id: session.id,
+        name: session.name,
+        command: session.command,
+        pid: session.process.pid,
+        cols: session.process.cols,
+        rows: session.process.rows,
+        createdAt: session.createdAt,
+        main: session.id === MAIN_SESSION_ID,
+    };
 }
 
-export function writeToPTY(data: string): void {
-    if (ptyProcess) {
-        ptyProcess.write(data);
+export function listPTYSessions(): PTYSessionInfo[] {
+    return Array.from(sessions.values()).map(toSessionInfo);
+}
+
+export function getPTYSession(sessionId: string): PTYSessionInfo | null {
+    const session = sessions.get(sessionId);
+    return session ? toSessionInfo(session) : null;
+}
+
+export function renamePTYSession(sessionId: string, name: string): boolean {
+    const session = sessions.get(sessionId);
+    if (!session) {
+        return false;
     }
+    session.name = name;
+    return true;
 }
 
-export function resizePTY(cols: number, rows: number): void {
-    if (ptyProcess) {
-        ptyProcess.resize(cols, rows);
+/**
+ * Kill a single session. Its exit callbacks fire once the process is gone.
+ */
+export function closePTYSession(sessionId: string): boolean {
+    const session = sessions.get(sessionId);
+    if (!session) {
+        return false;
     }
+    session.process.kill();
+    return true;
 }
 
-export function killPTY(): void {
-    if (ptyProcess) {
-        ptyProcess.kill();
-        ptyProcess = null;
+export function writeToPTY(data: string, sessionId: string = MAIN_SESSION_ID): void {
+    const session = sessions.get(sessionId);
+    if (session) {
+        session.process.write(data);
+        inputCallbacks.forEach((callback) => callback(data, sessionId));
     }
+}
+
+/**
+ * Resize one session, or every session when no id is given
+ */
+export function resizePTY(cols: number, rows: number, sessionId?: string): void {
+    sessions.forEach((session) => {
+        if (sessionId === undefined || session.id === sessionId) {
+            if (session.process.cols === cols && session.process.rows === rows) {
+                return;
+            }
+            session.process.resize(cols, rows);
+            resizeCallbacks.forEach((callback) => callback(cols, rows, session.id));
+        }
+    });
+}
+
+/**
+ * Stop or restart reading output from every session. While paused, programs
+ * block once the PTY's buffer is full.
+ */
+export function setPTYOutputPaused(paused: boolean): void {
+    if (paused === outputPaused) {
+        return;
+    }
+    outputPaused = paused;
+    sessions.forEach((session) => {
+        if (paused) {
+            session.process.pause();
+        } else {
+            session.process.resume();
+        }
+    });
+}
+
+export function isPTYOutputPaused(): boolean {
+    return outputPaused;
+}
+
+export function killPTY(): void {
+    sessions.forEach((session) => {
+        session.process.kill();
+    });
+    sessions.clear();
 
     // Restore terminal
     if (process.stdin.isTTY) {
@@ -119,14 +479,26 @@ export function killPTY(): void {
     }
 }
 
-export function onPTYData(callback: (data: string) => void): void {
-    dataCallback = callback;
+export function onPTYData(callback: (data: string, sessionId: string) => void): () => void {
+    return subscribe(dataCallbacks, callback);
+}
+
+export function onPTYExit(callback: (code: number, sessionId: string) => void): () => void {
+    return subscribe(exitCallbacks, callback);
+}
+
+export function onPTYSpawn(callback: (sessionId: string) => void): () => void {
+    return subscribe(spawnCallbacks, callback);
+}
+
+export function onPTYInput(callback: (data: string, sessionId: string) => void): () => void {
+    return subscribe(inputCallbacks, callback);
 }
 
-export function onPTYExit(callback: (code: number) => void): void {
-    exitCallback = callback;
+export function onPTYResize(callback: (cols: number, rows: number, sessionId: string) => void): () => void {
+    return subscribe(resizeCallbacks, callback);
 }
 
-export function isPTYRunning(): boolean {
-    return ptyProcess !== null;
+export function isPTYRunning(sessionId: string = MAIN_SESSION_ID): boolean {
+    return sessions.has(sessionId);
 }
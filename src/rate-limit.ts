@@ -0,0 +1,139 @@
+export interface RateLimitOptions {
+    // Attempts allowed in a burst
+    capacity: number;
+    // One attempt is given back every `refillInterval` milliseconds
+    refillInterval: number;
+    // How long a key is blocked the first time it runs dry (0: just wait for the next token).
+    // Every further time doubles it, up to `maxBlockDuration`.
+    blockDuration?: number;
+    maxBlockDuration?: number;
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+    blockedUntil: number;
+    // Times the bucket ran dry; forgotten once the entry expires
+    strikes: number;
+}
+
+const PRUNE_INTERVAL = 60 * 1000;
+
+/**
+ * Token bucket per key (usually a client IP) with exponential backoff.
+ * Entries expire once they are full again and no longer blocked.
+ */
+export class RateLimiter {
+    private buckets: Map<string, Bucket> = new Map();
+    private lastPruneAt = 0;
+
+    constructor(private readonly options: RateLimitOptions) {}
+
+    /**
+     * Milliseconds until `key` may try again, 0 if it may now
+     */
+    retryAfter(key: string, now: number = Date.now()): number {
+        const bucket = this.buckets.get(key);
+        if (!bucket) {
+            return 0;
+        }
+        this.refill(bucket, now);
+
+        if (bucket.blockedUntil > now) {
+            return bucket.blockedUntil - now;
+        }
+        if (bucket.tokens < 1) {
+            return Math.ceil((1 - bucket.tokens) * this.options.refillInterval);
+        }
+        return 0;
+    }
+
+    /**
+     * Attempts `key` has left before it is blocked
+     */
+    remaining(key: string, now: number = Date.now()): number {
+        const bucket = this.buckets.get(key);
+        if (!bucket) {
+            return this.options.capacity;
+        }
+        this.refill(bucket, now);
+        return Math.floor(bucket.tokens);
+    }
+
+    /**
+     * Use up one attempt. Returns how long `key` must now wait (0 if it still has attempts left).
+     */
+    consume(key: string, now: number = Date.now()): number {
+        this.prune(now);
+
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = { tokens: this.options.capacity, updatedAt: now, blockedUntil: 0, strikes: 0 };
+            this.buckets.set(key, bucket);
+        }
+        this.refill(bucket, now);
+        bucket.tokens = Math.max(0, bucket.tokens - 1);
+
+        if (bucket.tokens < 1 && this.options.blockDuration) {
+            const duration = Math.min(
+                this.options.blockDuration * 2 ** bucket.strikes,
+                this.options.maxBlockDuration || Infinity
+            );
+            bucket.blockedUntil = now + duration;
+            bucket.strikes++;
+            // Come back from a block with a full bucket
+            bucket.tokens = this.options.capacity;
+            bucket.updatedAt = bucket.blockedUntil;
+        }
+        return this.retryAfter(key, now);
+    }
+
+    /**
+     * Forget a key, e.g. after a successful login
+     */
+    reset(key: string): void {
+        this.buckets.delete(key);
+    }
+
+    clear(): void {
+        this.buckets.clear();
+    }
+
+    private refill(bucket: Bucket, now: number): void {
+        if (now <= bucket.updatedAt) {
+            return;
+        }
+        bucket.tokens = Math.min(
+            this.options.capacity,
+            bucket.tokens + (now - bucket.updatedAt) / this.options.refillInterval
+        );
+        bucket.updatedAt = now;
+    }
+
+    private prune(now: number): void {
+        if (now - this.lastPruneAt < PRUNE_INTERVAL) {
+            return;
+        }
+        this.lastPruneAt = now;
+
+        // Keep strikes around for as long as the longest block, so backoff survives a quiet spell
+        const memory = this.options.maxBlockDuration || this.options.blockDuration || 0;
+        this.buckets.forEach((bucket, key) => {
+            this.refill(bucket, now);
+            if (bucket.tokens >= this.options.capacity && bucket.blockedUntil + memory <= now) {
+                this.buckets.delete(key);
+            }
+        });
+    }
+}
+
+/**
+ * Format a wait in milliseconds for error messages ("45 seconds", "4 minutes")
+ */
+export function formatWait(ms: number): string {
+    const seconds = Math.ceil(ms / 1000);
+    if (seconds < 90) {
+        return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    }
+    return `${Math.ceil(seconds / 60)} minutes`;
+}
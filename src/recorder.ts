@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { CONFIG_DIR } from './config';
+import { onPTYData, onPTYInput, onPTYResize, MAIN_SESSION_ID } from './pty';
+
+// Bare file names passed to --record end up here
+export const RECORDINGS_DIR = path.join(CONFIG_DIR, 'recordings');
+
+export interface RecordingOptions {
+    cols: number;
+    rows: number;
+    title?: string;
+}
+
+// First line of an asciicast v2 file
+interface AsciicastHeader {
+    version: number;
+    width: number;
+    height: number;
+    timestamp?: number;
+    title?: string;
+    env?: Record<string, string>;
+}
+
+export interface RecordingInfo {
+    name: string;
+    size: number;
+    modifiedAt: number;
+    active: boolean;
+}
+
+export interface ReplayOptions {
+    speed?: number;
+    // Cap pauses between events to this many seconds
+    idleLimit?: number;
+}
+
+// Written synchronously so nothing is lost when the session exits abruptly
+let recordingFd: number | null = null;
+let recordingPath: string | null = null;
+let recordingStart = 0;
+let listenersRegistered = false;
+
+/**
+ * Resolve a --record argument. Bare names go to the recordings directory.
+ */
+export function resolveRecordingPath(file: string): string {
+    if (path.basename(file) === file) {
+        const name = path.extname(file) ? file : `${file}.cast`;
+        return path.join(RECORDINGS_DIR, name);
+    }
+    return path.resolve(file);
+}
+
+/**
+ * Append one asciicast v2 event: [elapsed seconds, code, data]
+ */
+function writeEvent(code: 'o' | 'i' | 'r', data: string): void {
+    if (recordingFd === null) return;
+    const elapsed = (Date.now() - recordingStart) / 1000;
+    fs.writeSync(recordingFd, JSON.stringify([Number(elapsed.toFixed(6)), code, data]) + '\n');
+}
+
+/**
+ * Start recording the main session in asciicast v2 format
+ */
+export function startRecording(file: string, options: RecordingOptions): string {
+    const fullPath = resolveRecordingPath(file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+
+    recordingFd = fs.openSync(fullPath, 'w', 0o600);
+    recordingPath = fullPath;
+    recordingStart = Date.now();
+
+    const header: AsciicastHeader = {
+        version: 2,
+        width: options.cols,
+        height: options.rows,
+        timestamp: Math.floor(recordingStart / 1000),
+        env: { SHELL: process.env.SHELL || '', TERM: 'xterm-256color' },
+    };
+    if (options.title) {
+        header.title = options.title;
+    }
+    fs.writeSync(recordingFd, JSON.stringify(header) + '\n');
+
+    if (!listenersRegistered) {
+        listenersRegistered = true;
+
+        onPTYData((data, sessionId) => {
+            if (sessionId === MAIN_SESSION_ID) writeEvent('o', data);
+        });
+        onPTYInput((data, sessionId) => {
+            if (sessionId === MAIN_SESSION_ID) writeEvent('i', data);
+        });
+        onPTYResize((cols, rows, sessionId) => {
+            if (sessionId === MAIN_SESSION_ID) writeEvent('r', `${cols}x${rows}`);
+        });
+    }
+
+    return fullPath;
+}
+
+export function stopRecording(): void {
+    if (recordingFd !== null) {
+        fs.closeSync(recordingFd);
+        recordingFd = null;
+    }
+    recordingPath = null;
+}
+
+export function getActiveRecording(): string | null {
+    return recordingPath;
+}
+
+/**
+ * Recordings in the recordings directory, plus the active one if it lives elsewhere
+ */
+function recordingFiles(): Map<string, string> {
+    const files = new Map<string, string>();
+
+    if (fs.existsSync(RECORDINGS_DIR)) {
+        for (const name of fs.readdirSync(RECORDINGS_DIR)) {
+            if (name.endsWith('.cast')) {
+                files.set(name, path.join(RECORDINGS_DIR, name));
+            }
+        }
+    }
+
+    if (recordingPath) {
+        files.set(path.basename(recordingPath), recordingPath);
+    }
+
+    return files;
+}
+
+export function listRecordings(): RecordingInfo[] {
+    const recordings: RecordingInfo[] = [];
+
+    recordingFiles().forEach((fullPath, name) => {
+        try {
+            const stats = fs.statSync(fullPath);
+            recordings.push({
+                name,
+                size: stats.size,
+                modifiedAt: stats.mtimeMs,
+                active: fullPath === recordingPath,
+            });
+        } catch {
+            // Deleted in the meantime
+        }
+    });
+
+    return recordings.sort((a, b) => b.modifiedAt - a.modifiedAt);
+}
+
+/**
+ * Look up a recording by the name listed in listRecordings()
+ */
+export function getRecordingPath(name: string): string | null {
+    return recordingFiles().get(name) || null;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Play a recording back to stdout with its original timing
+ */
+export async function replayRecording(file: string, options: ReplayOptions = {}): Promise<void> {
+    const speed = options.speed && options.speed > 0 ? options.speed : 1;
+    const idleLimit = options.idleLimit && options.idleLimit > 0 ? options.idleLimit : Infinity;
+    const fullPath = fs.existsSync(file) ? file : resolveRecordingPath(file);
+
+    if (!fs.existsSync(fullPath)) {
+        throw new Error(`Recording not found: ${file}`);
+    }
+
+    const rl = readline.createInterface({ input: fs.createReadStream(fullPath), crlfDelay: Infinity });
+    let header: AsciicastHeader | null = null;
+    let lastTime = 0;
+
+    for await (const line of rl) {
+        if (!line.trim()) continue;
+
+        if (!header) {
+            header = JSON.parse(line) as AsciicastHeader;
+            if (header.version !== 2) {
+                throw new Error(`Unsupported asciicast version: ${header.version}`);
+            }
+            continue;
+        }
+
+        const [time, code, data] = JSON.parse(line);
+        const delay = Math.min(time - lastTime, idleLimit);
+        lastTime = time;
+
+        if (delay > 0) {
+            await sleep((delay * 1000) / speed);
+        }
+
+        // Input is echoed by the PTY already, and we can't resize the viewer's terminal
+        if (code === 'o') {
+            process.stdout.write(data);
+        }
+    }
+}
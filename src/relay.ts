@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { writeToPTY, resizePTY, onPTYData, onPTYExit, getLocalSize } from './pty';
+import { writeToPTY, resizePTY, onPTYData, onPTYExit, getLocalSize, MAIN_SESSION_ID } from './pty';
 
 let isRunning = false;
 let pollInterval: NodeJS.Timeout | null = null;
@@ -37,13 +37,16 @@ export function startRelay(sessionId: string, serverUrl: string): void {
 
     console.log('  [Relay] Starting HTTP relay...');
 
-    // Set up PTY data forwarding
-    onPTYData((data) => {
-        outputBuffer.push(data);
+    // Set up PTY data forwarding (the relay only carries the main session)
+    onPTYData((data, ptySessionId) => {
+        if (ptySessionId === MAIN_SESSION_ID) {
+            outputBuffer.push(data);
+        }
     });
 
     // Handle PTY exit
-    onPTYExit(async (code) => {
+    onPTYExit(async (code, ptySessionId) => {
+        if (ptySessionId !== MAIN_SESSION_ID) return;
         try {
             await axios.post(`${serverUrl}/api/terminal?sessionId=${sessionId}`, {
                 type: 'exit',
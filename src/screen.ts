@@ -0,0 +1,81 @@
+import { Terminal, ITerminalAddon } from '@xterm/headless';
+import { SerializeAddon } from '@xterm/addon-serialize';
+
+// Lines of scrollback kept by the server-side emulator and included in snapshots
+const SCREEN_SCROLLBACK = 2000;
+
+interface Screen {
+    terminal: Terminal;
+    serializer: SerializeAddon;
+}
+
+// One headless emulator per PTY session, fed with the same output the clients get
+const screens: Map<string, Screen> = new Map();
+
+function getScreen(sessionId: string, cols: number, rows: number): Screen {
+    let screen = screens.get(sessionId);
+    if (!screen) {
+        const terminal = new Terminal({
+            cols,
+            rows,
+            scrollback: SCREEN_SCROLLBACK,
+            allowProposedApi: true,
+        });
+        const serializer = new SerializeAddon();
+        // The addon is typed against the browser Terminal but works with the headless one
+        terminal.loadAddon(serializer as ITerminalAddon);
+
+        screen = { terminal, serializer };
+        screens.set(sessionId, screen);
+    }
+    return screen;
+}
+
+/**
+ * Feed PTY output into the session's emulator
+ */
+export function writeScreen(sessionId: string, data: string, cols: number, rows: number): void {
+    getScreen(sessionId, cols, rows).terminal.write(data);
+}
+
+export function resizeScreen(sessionId: string, cols: number, rows: number): void {
+    const screen = screens.get(sessionId);
+    if (screen) {
+        screen.terminal.resize(cols, rows);
+    }
+}
+
+/**
+ * Serialize the screen and scrollback as escape sequences that reproduce it.
+ * Resolves once everything written so far has been parsed, so output written
+ * after this call is never part of the snapshot.
+ */
+export function serializeScreen(sessionId: string): Promise<{ data: string; cols: number; rows: number } | null> {
+    const screen = screens.get(sessionId);
+    if (!screen) {
+        return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+        screen.terminal.write('', () => {
+            resolve({
+                data: screen.serializer.serialize({ scrollback: SCREEN_SCROLLBACK }),
+                cols: screen.terminal.cols,
+                rows: screen.terminal.rows,
+            });
+        });
+    });
+}
+
+export function disposeScreen(sessionId: string): void {
+    const screen = screens.get(sessionId);
+    if (screen) {
+        screen.terminal.dispose();
+        screens.delete(sessionId);
+    }
+}
+
+export function disposeAllScreens(): void {
+    screens.forEach((screen) => screen.terminal.dispose());
+    screens.clear();
+}
@@ -0,0 +1,153 @@
+// Default per-session scrollback cap
+export const DEFAULT_SCROLLBACK_BYTES = 1024 * 1024;
+
+interface Chunk {
+    offset: number;
+    bytes: number;
+    data: string;
+}
+
+export interface ScrollbackPage {
+    // Byte offsets of the returned data; pass `start` as `before` to page further back
+    start: number;
+    end: number;
+    data: string;
+    hasMore: boolean;
+}
+
+/**
+ * Parse sizes such as "512kb", "4mb" or a plain byte count
+ */
+export function parseSize(value: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*(b|kb|k|mb|m|gb|g)?$/i.exec(value.trim());
+    if (!match) {
+        throw new Error(`Invalid size: ${value}`);
+    }
+
+    const units: Record<string, number> = { b: 1, k: 1024, kb: 1024, m: 1024 ** 2, mb: 1024 ** 2, g: 1024 ** 3, gb: 1024 ** 3 };
+    const unit = (match[2] || 'b').toLowerCase();
+    return Math.floor(parseFloat(match[1]) * units[unit]);
+}
+
+/**
+ * Output log capped by size in bytes rather than chunk count.
+ *
+ * Every chunk keeps the byte offset it was written at since the session
+ * started, so offsets stay valid while old chunks are dropped.
+ */
+export class ScrollbackBuffer {
+    private chunks: Chunk[] = [];
+    // Index of the oldest live chunk; dropped chunks are compacted away in batches
+    private head = 0;
+    private totalBytes = 0;
+    private nextOffset = 0;
+
+    constructor(private readonly maxBytes: number = DEFAULT_SCROLLBACK_BYTES) {}
+
+    append(data: string): void {
+        const bytes = Buffer.byteLength(data);
+        this.chunks.push({ offset: this.nextOffset, bytes, data });
+        this.nextOffset += bytes;
+        this.totalBytes += bytes;
+
+        while (this.totalBytes > this.maxBytes) {
+            const oldest = this.chunks[this.head];
+            const excess = this.totalBytes - this.maxBytes;
+            if (oldest.bytes <= excess) {
+                this.totalBytes -= oldest.bytes;
+                this.head++;
+            } else {
+                // Large chunks are cut rather than dropped whole, so a big burst doesn't empty the buffer
+                this.trimChunk(oldest, excess);
+            }
+        }
+
+        if (this.head > 1024 && this.head * 2 > this.chunks.length) {
+            this.chunks = this.chunks.slice(this.head);
+            this.head = 0;
+        }
+    }
+
+    /**
+     * Drop at least `count` bytes from the front of a chunk, moving forward to
+     * the next UTF-8 character boundary
+     */
+    private trimChunk(chunk: Chunk, count: number): void {
+        const bytes = Buffer.from(chunk.data);
+        let cut = count;
+        while (cut < bytes.length && (bytes[cut] & 0xc0) === 0x80) {
+            cut++;
+        }
+
+        chunk.data = bytes.subarray(cut).toString();
+        chunk.offset += cut;
+        chunk.bytes -= cut;
+        this.totalBytes -= cut;
+    }
+
+    /** Offset of the oldest byte still held */
+    get startOffset(): number {
+        return this.head < this.chunks.length ? this.chunks[this.head].offset : this.nextOffset;
+    }
+
+    /** Offset just past the newest byte */
+    get endOffset(): number {
+        return this.nextOffset;
+    }
+
+    get size(): number {
+        return this.totalBytes;
+    }
+
+    /**
+     * Read whole chunks that end at or before `before`, newest first, until
+     * `limit` bytes are collected. At least one chunk is returned if any exists.
+     */
+    read(before: number = this.nextOffset, limit: number = 64 * 1024): ScrollbackPage {
+        // Binary search for the last chunk that ends at or before `before`
+        let low = this.head;
+        let high = this.chunks.length - 1;
+        let last = this.head - 1;
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            const chunk = this.chunks[mid];
+            if (chunk.offset + chunk.bytes <= before) {
+                last = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        if (last < this.head) {
+            const start = Math.min(before, this.startOffset);
+            return { start, end: start, data: '', hasMore: false };
+        }
+
+        let first = last;
+        let bytes = this.chunks[last].bytes;
+        while (first > this.head && bytes + this.chunks[first - 1].bytes <= limit) {
+            first--;
+            bytes += this.chunks[first].bytes;
+        }
+
+        const end = this.chunks[last].offset + this.chunks[last].bytes;
+        return {
+            start: this.chunks[first].offset,
+            end,
+            data: this.chunks.slice(first, last + 1).map((chunk) => chunk.data).join(''),
+            hasMore: first > this.head,
+        };
+    }
+
+    /** The most recent chunks, oldest first */
+    recent(count: number): string[] {
+        return this.chunks.slice(Math.max(this.head, this.chunks.length - count)).map((chunk) => chunk.data);
+    }
+
+    clear(): void {
+        this.chunks = [];
+        this.head = 0;
+        this.totalBytes = 0;
+    }
+}
@@ -1,13 +1,60 @@
 import * as qrcode from 'qrcode-terminal';
 import * as net from 'net';
 import * as http from 'http';
-import { spawnPTY, killPTY, onPTYExit } from './pty';
-import { startWebServer, stopWebServer } from './web-server';
+import { spawnPTY, respawnPTY, killPTY, onPTYExit, onHostKey, isPTYRunning, getLocalSize, MAIN_SESSION_ID } from './pty';
+import { startWebServer, stopWebServer, onRestartRequest, announceRestart, createPairingURL, setTunnelURL } from './web-server';
+import { SizePolicy } from './size-policy';
 import { startTunnel, stopTunnel } from './vortex-tunnel';
+import { startControlServer, stopControlServer, generateSessionId } from './daemon';
+import { startRecording, stopRecording } from './recorder';
+import { loadOrCreateTOTPSecret, totpURI } from './totp';
+import { startAudit, stopAudit, audit } from './audit';
+import { setupHostMenu } from './host-menu';
+import { listUsers } from './users';
+import { formatWait } from './rate-limit';
 
 const MIN_PORT = 8000;
 const MAX_PORT = 65535;
 
+// Automatic restarts wait RESTART_DELAY, doubling after each quick failure up to MAX_RESTART_DELAY.
+// A command that ran for STABLE_RUN_TIME counts as healthy and resets the delay.
+export const RESTART_DELAY = 1000;
+export const MAX_RESTART_DELAY = 30000;
+export const STABLE_RUN_TIME = 30000;
+
+export type RestartPolicy = 'never' | 'on-failure' | 'always';
+export const RESTART_POLICIES: RestartPolicy[] = ['never', 'on-failure', 'always'];
+
+export function shouldRestart(policy: RestartPolicy, exitCode: number): boolean {
+    return policy === 'always' || (policy === 'on-failure' && exitCode !== 0);
+}
+
+/**
+ * Delays between automatic restarts of the main command
+ */
+export class RestartBackoff {
+    private delay = RESTART_DELAY;
+
+    /**
+     * How long to wait before restarting a command that ran for `ranFor` milliseconds
+     */
+    next(ranFor: number): number {
+        if (ranFor >= STABLE_RUN_TIME) {
+            this.delay = RESTART_DELAY;
+        }
+        const delay = this.delay;
+        this.delay = Math.min(this.delay * 2, MAX_RESTART_DELAY);
+        return delay;
+    }
+
+    /**
+     * Start over, e.g. after a restart asked for by hand
+     */
+    reset(): void {
+        this.delay = RESTART_DELAY;
+    }
+}
+
 /**
  * Validate PIN format (6 digits)
  */
@@ -93,7 +140,7 @@ function verifyServerStarted(port: number): Promise<void> {
 /**
  * Generate QR code for terminal
  */
-function displayQRCode(url: string): void {
+export function displayQRCode(url: string): void {
     console.log('');
     console.log('  📱 Scan this QR code with your phone:');
     console.log('');
@@ -107,9 +154,60 @@ function displayQRCode(url: string): void {
     console.log('');
 }
 
+/**
+ * Show the QR code that adds the TOTP secret to an authenticator app
+ */
+export function displayTOTPEnrollment(secret: string, account: string): void {
+    console.log('');
+    console.log('  🔑 Scan this QR code with your authenticator app:');
+    console.log('');
+
+    qrcode.generate(totpURI(secret, account), { small: true }, (qr) => {
+        console.log(qr);
+    });
+
+    console.log('');
+    console.log(`  🔑 Or enter this key manually: ${secret}`);
+    console.log('');
+}
+
 export interface SessionOptions {
     debugAsr?: boolean;
     gatewayUrl?: string;
+    // Set when running as a background daemon started by `gogogo start --detach`
+    daemonId?: string;
+    // Record the main session to this asciicast file
+    recordFile?: string;
+    // Per-terminal output history kept for /api/history
+    scrollbackBytes?: number;
+    // Second PIN that only grants read-only access
+    viewerPin?: string;
+    // How long a web login lasts, in milliseconds
+    sessionTTL?: number;
+    // Lock browsers that send nothing for this many milliseconds, until they log in again
+    idleLock?: number;
+    sizePolicy?: SizePolicy;
+    // Start the command again when it exits
+    restartPolicy?: RestartPolicy;
+    // Keep serving after the command exits, until it is restarted from the web UI or Ctrl+C
+    keepAlive?: boolean;
+    // Require a code from an authenticator app to log in, alone or together with the PIN
+    totp?: boolean;
+    // Ask in this terminal before a new browser may connect
+    approveDevices?: boolean;
+    // Append logins, connections and remote input to the audit log (on unless --no-audit)
+    audit?: boolean;
+    // Log what was typed from the web, not just its length
+    auditInput?: boolean;
+    // Hosts /api/modelscope/proxy may reach, and whether private addresses are allowed
+    proxyHosts?: string[];
+    proxyAllowPrivate?: boolean;
+    // Encrypt terminal traffic between browser and server; the key is in the QR code
+    e2e?: boolean;
+    // Hold remote lines matching these patterns until the host or browser confirms them
+    guardPatterns?: string[];
+    // Origins besides the tunnel that may call the API (custom front ends)
+    allowOrigins?: string[];
 }
 
 export async function startSession(machineName: string, userPin?: string, command?: string[], options: SessionOptions = {}): Promise<void> {
@@ -144,13 +242,64 @@ export async function startSession(machineName: string, userPin?: string, comman
         }
         // If no PIN provided, pin remains empty string (no authentication)
 
+        if (options.viewerPin) {
+            if (!pin) {
+                throw new Error('--viewer-pin requires --pin');
+            }
+            if (!validatePIN(options.viewerPin)) {
+                throw new Error('Viewer PIN must be exactly 6 digits');
+            }
+            if (options.viewerPin === pin) {
+                throw new Error('Viewer PIN must differ from the PIN');
+            }
+        }
+
+        if (options.approveDevices && options.daemonId) {
+            throw new Error('--approve-devices needs a terminal to approve from and cannot be used with --detach');
+        }
+
+        // The secret lives in the config directory so the app only has to be enrolled once
+        let totpSecret: string | undefined;
+        if (options.totp) {
+            const { secret, created } = loadOrCreateTOTPSecret();
+            totpSecret = secret;
+            if (created) {
+                displayTOTPEnrollment(secret, machineName);
+            }
+        }
+        // Named users from `gogogo user add` log in with a password (read again at each login)
+        const users = listUsers();
+
+        if (options.idleLock && !pin && !totpSecret && users.length === 0) {
+            throw new Error('--idle-lock needs a way to log in again: --pin, --totp or a user from `gogogo user add`');
+        }
+
+        if (options.audit !== false) {
+            startAudit({ rawInput: options.auditInput });
+            audit('session_start', { machine: machineName, daemon: options.daemonId });
+        }
+
         // Show progress steps
         console.log('  Finding available port...');
         const port = await findAvailablePort();
         console.log(`  Using port: ${port}`);
 
         console.log('  Starting local server...');
-        await startWebServer(port, pin, { debugAsr: options.debugAsr });
+        await startWebServer(port, pin, {
+            debugAsr: options.debugAsr,
+            scrollbackBytes: options.scrollbackBytes,
+            viewerPin: options.viewerPin,
+            sessionTTL: options.sessionTTL,
+            idleLock: options.idleLock,
+            sizePolicy: options.sizePolicy,
+            totpSecret,
+            approveDevices: options.approveDevices,
+            proxyHosts: options.proxyHosts,
+            proxyAllowPrivate: options.proxyAllowPrivate,
+            e2e: options.e2e,
+            guardPatterns: options.guardPatterns,
+            allowOrigins: options.allowOrigins,
+        });
 
         // Verify server is accessible before creating tunnel
         await verifyServerStarted(port);
@@ -160,6 +309,7 @@ export async function startSession(machineName: string, userPin?: string, comman
 
         try {
             tunnelUrl = await startTunnel(port, options.gatewayUrl);
+            setTunnelURL(tunnelUrl);
         } catch (error) {
             console.log('');
             console.log('  ❌ Failed to create tunnel:');
@@ -169,15 +319,51 @@ export async function startSession(machineName: string, userPin?: string, comman
             process.exit(1);
         }
 
-        // Display QR code and connection info
-        displayQRCode(tunnelUrl);
+        // Display QR code and connection info. With a login, the QR code also pairs one device,
+        // and with --e2e it carries the encryption key.
+        displayQRCode(createPairingURL(tunnelUrl));
 
         // Show PIN info after QR code
         if (pin) {
             console.log(`    🔐 PIN for web access: ${pin}`);
-        } else {
+            if (options.viewerPin) {
+                console.log(`    👀 Viewer PIN (read-only): ${options.viewerPin}`);
+            }
+        } else if (!totpSecret && users.length === 0) {
             console.log('    🔓 No PIN required - direct access enabled');
         }
+        if (users.length > 0) {
+            console.log(`    👥 ${users.length} user${users.length === 1 ? '' : 's'} can log in with a password (see \`gogogo user list\`)`);
+        }
+        if (totpSecret) {
+            console.log('    🔑 Authenticator code required to log in (see `gogogo totp`)');
+        }
+        if (options.approveDevices) {
+            console.log('    🛡  New devices must be approved in this terminal');
+        }
+        if (options.guardPatterns) {
+            console.log('    ⚠️  Dangerous-looking commands from the web wait for confirmation');
+        }
+        if (options.idleLock) {
+            console.log(`    ⏲  Browsers lock after ${formatWait(options.idleLock)} without input`);
+        }
+        if (options.allowOrigins) {
+            console.log(`    🌐 Also accepting API calls from ${options.allowOrigins.join(', ')}`);
+        }
+        if (options.e2e) {
+            console.log('    🔒 End-to-end encrypted: open the link from the QR code, it carries the key');
+        }
+        if (pin || totpSecret || users.length > 0 || options.e2e) {
+            if (pin || totpSecret || users.length > 0) {
+                console.log('    🔗 The QR code logs in one device without the PIN for 5 minutes');
+            }
+            console.log(options.daemonId
+                ? '       Run `gogogo pair` for a new one'
+                : '       Press Ctrl-G p for a new one');
+        }
+        if (!options.daemonId) {
+            console.log('    ⌨️  Ctrl-G ? lists host commands (kick, lock input, new PIN)');
+        }
         console.log('');
         console.log('  Started.');
         console.log('');
@@ -210,11 +396,99 @@ export async function startSession(machineName: string, userPin?: string, comman
             command: commandToRun,
             args: argsToRun,
             cwd: process.cwd(),
+            headless: !!options.daemonId,
         });
 
-        // Handle command exit
-        onPTYExit((code) => {
+        // Ctrl-G p prints a fresh pairing QR code; the rest of the host commands are in host-menu.ts
+        if (!options.daemonId) {
+            onHostKey('p', () => {
+                displayQRCode(createPairingURL(tunnelUrl));
+            });
+            setupHostMenu();
+        }
+
+        if (options.recordFile) {
+            const { cols, rows } = getLocalSize();
+            const recordingPath = startRecording(options.recordFile, {
+                cols,
+                rows,
+                title: [commandToRun, ...argsToRun].join(' '),
+            });
+            console.log(`  ⏺  Recording to ${recordingPath}`);
+        }
+
+        // Control socket for `gogogo ls`, `gogogo attach` and `gogogo kill`
+        await startControlServer({
+            id: options.daemonId || generateSessionId(),
+            pid: process.pid,
+            name: machineName,
+            command: [commandToRun, ...argsToRun].join(' '),
+            tunnelUrl,
+            detached: !!options.daemonId,
+            startedAt: Date.now(),
+        }, () => cleanup());
+
+        const restartPolicy = options.restartPolicy || 'never';
+        const commandLabel = command && command.length > 0 ? command.join(' ') : 'Terminal';
+        let startedAt = Date.now();
+        const backoff = new RestartBackoff();
+        let restartTimer: NodeJS.Timeout | null = null;
+
+        const restartCommand = () => {
+            if (restartTimer) {
+                clearTimeout(restartTimer);
+                restartTimer = null;
+            }
+            if (isPTYRunning()) {
+                return;
+            }
+            console.log(`  Restarting ${commandLabel}...`);
+            startedAt = Date.now();
+            respawnPTY();
+        };
+
+        // Restart requested from the web UI
+        onRestartRequest(() => {
+            backoff.reset();
+            restartCommand();
+        });
+
+        // While the command is down, the local terminal (still in raw mode) can restart it or quit
+        if (!options.daemonId) {
+            process.stdin.on('data', (data) => {
+                if (isPTYRunning()) {
+                    return;
+                }
+                const key = data.toString();
+                if (key.includes('\x03')) {
+                    cleanup();
+                } else if (key.includes('\r')) {
+                    backoff.reset();
+                    restartCommand();
+                }
+            });
+        }
+
+        // Handle command exit - only the main session ends gogogo
+        onPTYExit((code, sessionId) => {
+            if (sessionId !== MAIN_SESSION_ID) {
+                return;
+            }
             console.log('');
+
+            if (shouldRestart(restartPolicy, code)) {
+                const delay = backoff.next(Date.now() - startedAt);
+                console.log(`  ${commandLabel} exited with code ${code}. Restarting in ${delay / 1000}s...`);
+                announceRestart(Date.now() + delay);
+                restartTimer = setTimeout(restartCommand, delay);
+                return;
+            }
+
+            if (options.keepAlive) {
+                console.log(`  ${commandLabel} exited with code ${code}. Press Enter or use the web UI to restart it, Ctrl+C to quit.`);
+                return;
+            }
+
             if (command && command.length > 0) {
                 console.log(`  ${command.join(' ')} exited. Session ended.`);
             } else {
@@ -225,9 +499,16 @@ export async function startSession(machineName: string, userPin?: string, comman
 
         // Cleanup function
         const cleanup = () => {
+            if (restartTimer) {
+                clearTimeout(restartTimer);
+            }
             killPTY();
+            stopRecording();
+            stopControlServer();
             stopWebServer();
             stopTunnel();
+            audit('session_stop');
+            stopAudit();
             process.exit(0);
         };
 
@@ -0,0 +1,112 @@
+export type SizePolicy =
+    // Smallest of the local terminal and every client (the default)
+    | { mode: 'min' }
+    // Whichever client or local terminal sent input last
+    | { mode: 'latest-active' }
+    // The host terminal; smaller screens scroll
+    | { mode: 'local' }
+    | { mode: 'fixed'; cols: number; rows: number };
+
+export interface TerminalSize {
+    cols: number;
+    rows: number;
+}
+
+export interface SizeCandidate extends TerminalSize {
+    lastInputAt: number;
+}
+
+export const DEFAULT_SIZE_POLICY: SizePolicy = { mode: 'min' };
+
+export const MIN_COLS = 10;
+export const MAX_COLS = 1000;
+export const MIN_ROWS = 2;
+export const MAX_ROWS = 500;
+
+/**
+ * Check a size reported by a client and clamp it to what a PTY may be set to.
+ * Returns null unless both are whole numbers.
+ */
+export function clampSize(cols: unknown, rows: unknown): TerminalSize | null {
+    if (!Number.isInteger(cols) || !Number.isInteger(rows)) {
+        return null;
+    }
+    return {
+        cols: Math.min(Math.max(cols as number, MIN_COLS), MAX_COLS),
+        rows: Math.min(Math.max(rows as number, MIN_ROWS), MAX_ROWS),
+    };
+}
+
+/**
+ * Parse "min", "latest-active", "local" or "fixed:COLSxROWS"
+ */
+export function parseSizePolicy(value: string): SizePolicy {
+    const policy = value.trim().toLowerCase();
+
+    if (policy === 'min' || policy === 'latest-active' || policy === 'local') {
+        return { mode: policy };
+    }
+
+    const fixed = /^fixed:(\d+)x(\d+)$/.exec(policy);
+    if (fixed) {
+        const cols = parseInt(fixed[1], 10);
+        const rows = parseInt(fixed[2], 10);
+        if (cols < MIN_COLS || rows < MIN_ROWS || cols > MAX_COLS || rows > MAX_ROWS) {
+            throw new Error(`Fixed size out of range: ${cols}x${rows}`);
+        }
+        return { mode: 'fixed', cols, rows };
+    }
+
+    throw new Error(`Invalid size policy: ${value} (expected min, latest-active, local or fixed:COLSxROWS)`);
+}
+
+export function formatSizePolicy(policy: SizePolicy): string {
+    return policy.mode === 'fixed' ? `fixed:${policy.cols}x${policy.rows}` : policy.mode;
+}
+
+function smallest(sizes: TerminalSize[]): TerminalSize | null {
+    if (sizes.length === 0) {
+        return null;
+    }
+    return {
+        cols: Math.min(...sizes.map((size) => size.cols)),
+        rows: Math.min(...sizes.map((size) => size.rows)),
+    };
+}
+
+/**
+ * Pick the PTY size for a policy. `local` is null when no local terminal is
+ * attached; `fallback` is used when there is nothing else to go on.
+ */
+export function resolveSize(
+    policy: SizePolicy,
+    local: SizeCandidate | null,
+    clients: SizeCandidate[],
+    fallback: TerminalSize
+): TerminalSize {
+    const candidates = local ? [local, ...clients] : clients;
+
+    switch (policy.mode) {
+        case 'fixed':
+            return { cols: policy.cols, rows: policy.rows };
+
+        case 'local':
+            // A daemon with nothing attached has no host terminal to follow
+            return local || smallest(clients) || fallback;
+
+        case 'latest-active': {
+            const active = candidates.reduce<SizeCandidate | null>(
+                (latest, candidate) => (!latest || candidate.lastInputAt > latest.lastInputAt ? candidate : latest),
+                null
+            );
+            // Before anyone has typed, behave like min
+            if (active && active.lastInputAt > 0) {
+                return { cols: active.cols, rows: active.rows };
+            }
+            return smallest(candidates) || fallback;
+        }
+
+        default:
+            return smallest(candidates) || fallback;
+    }
+}
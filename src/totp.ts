@@ -0,0 +1,154 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_DIR } from './config';
+
+const TOTP_FILE = path.join(CONFIG_DIR, 'totp.json');
+const ISSUER = 'gogogo';
+
+// RFC 6238 defaults, which every authenticator app understands
+const PERIOD = 30;
+const DIGITS = 6;
+// Codes from one step either side are accepted to allow for clock drift
+const WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Codes accepted recently, as "<secret hash>:<step>:<code>", so each one works once.
+// Forgotten once their step is outside the window.
+const usedCodes: Map<string, number> = new Map();
+
+function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32Decode(value: string): Buffer {
+    const input = value.toUpperCase().replace(/[\s=]/g, '');
+    let bits = 0;
+    let current = 0;
+    const bytes: number[] = [];
+    for (const char of input) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Invalid base32 character in TOTP secret');
+        }
+        current = (current << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((current >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+function codeForStep(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+
+    // Dynamic truncation (RFC 4226 section 5.3)
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+/**
+ * A new random base32 secret (160 bits, as RFC 4226 recommends)
+ */
+export function generateTOTPSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * The code an authenticator app shows for the secret at the given time
+ */
+export function totpCode(secret: string, time: number = Date.now()): string {
+    return codeForStep(base32Decode(secret), Math.floor(time / 1000 / PERIOD));
+}
+
+/**
+ * Check a code against the current time step and its neighbours
+ */
+export function verifyTOTP(secret: string, code: unknown, time: number = Date.now()): boolean {
+    if (typeof code !== 'string' || !/^\d{6}$/.test(code)) {
+        return false;
+    }
+
+    const key = base32Decode(secret);
+    const current = Math.floor(time / 1000 / PERIOD);
+    usedCodes.forEach((step, used) => {
+        if (step < current - WINDOW) usedCodes.delete(used);
+    });
+
+    const secretId = crypto.createHash('sha256').update(key).digest('hex');
+    for (let step = current - WINDOW; step <= current + WINDOW; step++) {
+        const expected = Buffer.from(codeForStep(key, step));
+        const used = `${secretId}:${step}:${code}`;
+        if (crypto.timingSafeEqual(expected, Buffer.from(code)) && !usedCodes.has(used)) {
+            usedCodes.set(used, step);
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * otpauth:// URI for enrolling the secret in an authenticator app
+ */
+export function totpURI(secret: string, account: string): string {
+    const label = encodeURIComponent(`${ISSUER}:${account}`);
+    return `otpauth://totp/${label}?secret=${secret}&issuer=${ISSUER}&algorithm=SHA1&digits=${DIGITS}&period=${PERIOD}`;
+}
+
+export function loadTOTPSecret(): string | null {
+    try {
+        if (fs.existsSync(TOTP_FILE)) {
+            const data = JSON.parse(fs.readFileSync(TOTP_FILE, 'utf-8'));
+            if (typeof data.secret === 'string' && data.secret) {
+                base32Decode(data.secret);
+                return data.secret;
+            }
+        }
+    } catch (error) {
+        console.error('Error reading TOTP secret:', error);
+    }
+    return null;
+}
+
+/**
+ * Generate a secret and store it, readable only by the current user
+ */
+export function resetTOTPSecret(): string {
+    const secret = generateTOTPSecret();
+    if (!fs.existsSync(CONFIG_DIR)) {
+        fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    }
+    fs.writeFileSync(TOTP_FILE, JSON.stringify({ secret, createdAt: Date.now() }, null, 2), { mode: 0o600 });
+    return secret;
+}
+
+/**
+ * The stored secret, creating one on first use. `created` tells the caller to show the enrollment QR.
+ */
+export function loadOrCreateTOTPSecret(): { secret: string; created: boolean } {
+    const existing = loadTOTPSecret();
+    if (existing) {
+        return { secret: existing, created: false };
+    }
+    return { secret: resetTOTPSecret(), created: true };
+}
@@ -0,0 +1,130 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_DIR } from './config';
+import { ClientRole, safeEqual } from './auth';
+
+const USERS_FILE = path.join(CONFIG_DIR, 'users.json');
+
+// scrypt cost parameters, stored with each hash so they can be raised later
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_BYTES = 32;
+const SALT_BYTES = 16;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface UserRecord {
+    name: string;
+    role: ClientRole;
+    // scrypt$N$r$p$salt$hash, base64url
+    password: string;
+    createdAt: number;
+}
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,31}$/;
+
+export function validateUsername(name: string): string {
+    const normalized = name.trim().toLowerCase();
+    if (!USERNAME_PATTERN.test(normalized)) {
+        throw new Error('Usernames are 1-32 letters, digits, dots, dashes or underscores');
+    }
+    return normalized;
+}
+
+export function listUsers(): UserRecord[] {
+    try {
+        if (fs.existsSync(USERS_FILE)) {
+            const data = JSON.parse(fs.readFileSync(USERS_FILE, 'utf-8'));
+            return Array.isArray(data.users) ? data.users : [];
+        }
+    } catch (error) {
+        console.error('Error reading users:', error);
+    }
+    return [];
+}
+
+function saveUsers(users: UserRecord[]): void {
+    if (!fs.existsSync(CONFIG_DIR)) {
+        fs.mkdirSync(CONFIG_DIR, { recursive: true });
+    }
+    fs.writeFileSync(USERS_FILE, JSON.stringify({ users }, null, 2), { mode: 0o600 });
+}
+
+export function hasUsers(): boolean {
+    return listUsers().length > 0;
+}
+
+export function userExists(name: string): boolean {
+    return listUsers().some((user) => user.name === name);
+}
+
+function scrypt(password: string, salt: Buffer, params: typeof SCRYPT_PARAMS): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(password, salt, SCRYPT_KEY_BYTES, params, (error, key) => error ? reject(error) : resolve(key));
+    });
+}
+
+async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(SALT_BYTES);
+    const key = await scrypt(password, salt, SCRYPT_PARAMS);
+    const { N, r, p } = SCRYPT_PARAMS;
+    return ['scrypt', N, r, p, salt.toString('base64url'), key.toString('base64url')].join('$');
+}
+
+async function checkPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, N, r, p, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !hash) {
+        return false;
+    }
+    const key = await scrypt(password, Buffer.from(salt, 'base64url'), { N: Number(N), r: Number(r), p: Number(p) });
+    return safeEqual(key.toString('base64url'), hash);
+}
+
+// Checked against when the username is unknown, so the response takes as long either way
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Add a user, or set an existing user's password and role. Returns true if the user is new.
+ */
+export async function addUser(name: string, password: string, role: ClientRole): Promise<boolean> {
+    const username = validateUsername(name);
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new Error(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const record: UserRecord = { name: username, role, password: await hashPassword(password), createdAt: Date.now() };
+    const users = listUsers();
+    const existing = users.findIndex((user) => user.name === username);
+    if (existing === -1) {
+        users.push(record);
+    } else {
+        users[existing] = { ...record, createdAt: users[existing].createdAt };
+    }
+    saveUsers(users);
+    return existing === -1;
+}
+
+export function removeUser(name: string): boolean {
+    const username = name.trim().toLowerCase();
+    const users = listUsers();
+    const remaining = users.filter((user) => user.name !== username);
+    if (remaining.length === users.length) {
+        return false;
+    }
+    saveUsers(remaining);
+    return true;
+}
+
+/**
+ * The user these credentials belong to, or null. Read from disk each time, so
+ * `gogogo user add/remove` applies to a running session.
+ */
+export async function verifyUser(name: unknown, password: unknown): Promise<UserRecord | null> {
+    const username = typeof name === 'string' ? name.trim().toLowerCase() : '';
+    const user = listUsers().find((entry) => entry.name === username);
+    if (!user || typeof password !== 'string') {
+        dummyHash = dummyHash || hashPassword(crypto.randomBytes(16).toString('hex'));
+        await checkPassword(typeof password === 'string' ? password : '', await dummyHash);
+        return null;
+    }
+    return await checkPassword(password, user.password) ? user : null;
+}
@@ -3,6 +3,7 @@ import WebSocket from 'ws';
 import * as http from 'http';
 import * as https from 'https';
 import * as net from 'net';
+import { TUNNEL_HEADER, CLIENT_IP_HEADER, getTunnelSecret } from './auth';
 
 let tunnelWs: WebSocket | null = null;
 let tunnelUrl: string | null = null;
@@ -10,6 +11,9 @@ let sessionId: string | null = null;
 let gatewayUrl: string | null = null;
 let localPort: number | null = null;
 
+// Longest reason a close frame can carry
+const MAX_CLOSE_REASON_BYTES = 123;
+
 // Map to store pending HTTP requests
 const pendingRequests = new Map<string, {
     resolve: (value: any) => void;
@@ -107,7 +111,7 @@ function handleGatewayMessage(msg: any): void {
 
         case 'websocket_connect':
             // New WebSocket connection from browser
-            handleWebSocketConnect(msg.conn_id);
+            handleWebSocketConnect(msg.conn_id, msg.headers, msg.client_ip);
             break;
 
         case 'websocket_message':
@@ -122,7 +126,7 @@ function handleGatewayMessage(msg: any): void {
 
         case 'websocket_disconnect':
             // WebSocket disconnection from browser
-            handleWebSocketDisconnect(msg.conn_id);
+            handleWebSocketDisconnect(msg.conn_id, msg.code, msg.reason);
             break;
 
         case 'client_connected':
@@ -139,6 +143,46 @@ function handleGatewayMessage(msg: any): void {
     }
 }
 
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+    if (!headers) {
+        return undefined;
+    }
+    const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+}
+
+/**
+ * The browser's address as the gateway saw it: the message's client_ip if the gateway sends
+ * one, else the last X-Forwarded-For entry. That is the one the gateway appended; earlier
+ * entries, like X-Real-IP, may come from the browser and can't be trusted.
+ */
+export function gatewayClientIP(headers: Record<string, string> | undefined, clientIp?: unknown): string | null {
+    if (typeof clientIp === 'string' && clientIp) {
+        return clientIp;
+    }
+    const forwardedFor = findHeader(headers, 'x-forwarded-for');
+    if (forwardedFor) {
+        const hops = forwardedFor.split(',').map((hop) => hop.trim()).filter(Boolean);
+        return hops[hops.length - 1] || null;
+    }
+    return null;
+}
+
+/**
+ * Mark a relayed request as coming from the tunnel, replacing any gogogo headers the browser sent
+ */
+function addTunnelHeaders(headers: Record<string, string>, clientIp: string | null): void {
+    for (const key of Object.keys(headers)) {
+        if (key.toLowerCase().startsWith('x-gogogo-')) {
+            delete headers[key];
+        }
+    }
+    headers[TUNNEL_HEADER] = getTunnelSecret();
+    if (clientIp) {
+        headers[CLIENT_IP_HEADER] = clientIp;
+    }
+}
+
 /**
  * Handle HTTP request forwarded from gateway
  * Forward it to the local server and send response back
@@ -163,6 +207,13 @@ async function handleHttpRequest(msg: any): Promise<void> {
         delete requestHeaders.host;
         delete requestHeaders.Host;
 
+        // The browser talks HTTPS to the gateway, which lets the server mark cookies Secure
+        if (gatewayUrl && gatewayUrl.startsWith('https://')) {
+            delete requestHeaders['X-Forwarded-Proto'];
+            requestHeaders['x-forwarded-proto'] = 'https';
+        }
+        addTunnelHeaders(requestHeaders, gatewayClientIP(headers, msg.client_ip));
+
         // Make request to local server
         const options: http.RequestOptions = {
             hostname: 'localhost',
@@ -227,7 +278,7 @@ async function handleHttpRequest(msg: any): Promise<void> {
 /**
  * Handle new WebSocket connection
  */
-function handleWebSocketConnect(connId: string): void {
+function handleWebSocketConnect(connId: string, headers?: Record<string, string>, clientIp?: unknown): void {
     if (!localPort) {
         sendToGateway({
             type: 'websocket_close',
@@ -236,54 +287,90 @@ function handleWebSocketConnect(connId: string): void {
         return;
     }
 
-    // Create WebSocket connection to local server
-    const localWs = new WebSocket(`ws://localhost:${localPort}/ws`);
+    // Create WebSocket connection to local server, passing the browser's cookie, Origin and
+    // subprotocols on if the gateway sent them. The tunnel header lets the server hold
+    // the connection until the browser authenticates with an 'auth' message.
+    const cookie = findHeader(headers, 'cookie');
+    const origin = findHeader(headers, 'origin');
+    const protocol = findHeader(headers, 'sec-websocket-protocol');
+    const localHeaders: Record<string, string> = {};
+    if (cookie) {
+        localHeaders.cookie = cookie;
+    }
+    if (origin) {
+        localHeaders.origin = origin;
+    }
+    addTunnelHeaders(localHeaders, gatewayClientIP(headers, clientIp));
+    // Compression is left to the gateway; it only costs CPU on the loopback hop
+    const localWs = new WebSocket(
+        `ws://localhost:${localPort}/ws`,
+        protocol ? protocol.split(',').map((p) => p.trim()).filter(Boolean) : [],
+        { perMessageDeflate: false, headers: localHeaders }
+    );
 
     localWs.on('open', () => {
         console.log(`[Vortex] Local WebSocket connected for ${connId.substring(0, 8)}...`);
         websocketConnections.set(connId, localWs);
     });
 
-    localWs.on('message', (data: any) => {
-        // Forward data from local server to browser through gateway
-        // Local server sends JSON text, we need to preserve it
-        if (Buffer.isBuffer(data)) {
+    localWs.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+        // Forward data from local server to browser through gateway.
+        // ws hands text frames over as Buffers too, so go by isBinary: JSON stays text,
+        // binary output frames are base64 encoded
+        if (isBinary) {
             sendToGateway({
                 type: 'websocket_data',
                 conn_id: connId,
-                data: data.toString('base64'),
+                data: rawDataToBuffer(data).toString('base64'),
                 binary: true
             });
         } else {
-            // data is already a string (JSON), send it as-is
+            // Text frames are JSON, send them as-is
             sendToGateway({
                 type: 'websocket_data',
                 conn_id: connId,
-                data: data.toString(),
+                data: rawDataToBuffer(data).toString(),
                 binary: false
             });
         }
     });
 
-    localWs.on('close', () => {
+    localWs.on('close', (code: number, reason: Buffer) => {
         console.log(`[Vortex] Local WebSocket closed for ${connId.substring(0, 8)}...`);
         websocketConnections.delete(connId);
+        // The browser tells a failed login (4001), a kick (4002), a refused device (4003) and
+        // an E2E failure (4004) apart by the close code, so the gateway has to pass it on
         sendToGateway({
             type: 'websocket_close',
-            conn_id: connId
+            conn_id: connId,
+            ...(isSendableCloseCode(code) ? { code, reason: reason.toString() } : {})
         });
     });
 
     localWs.on('error', (err) => {
+        // 'close' follows and tells the gateway
         console.error(`[Vortex] Local WebSocket error for ${connId.substring(0, 8)}...`, err.message);
         websocketConnections.delete(connId);
-        sendToGateway({
-            type: 'websocket_close',
-            conn_id: connId
-        });
     });
 }
 
+/**
+ * ws delivers a Buffer by default, but RawData also covers fragments and ArrayBuffers
+ */
+function rawDataToBuffer(data: WebSocket.RawData): Buffer {
+    if (Buffer.isBuffer(data)) return data;
+    if (Array.isArray(data)) return Buffer.concat(data);
+    return Buffer.from(data);
+}
+
+/**
+ * Close codes that may be sent in a close frame. 1005 and 1006 only describe a connection
+ * that ended without one.
+ */
+function isSendableCloseCode(code: unknown): code is number {
+    return typeof code === 'number' && (code === 1000 || (code >= 3000 && code <= 4999));
+}
+
 /**
  * Handle WebSocket message from browser
  */
@@ -309,10 +396,15 @@ function handleWebSocketBinary(connId: string, data: string): void {
 /**
  * Handle WebSocket disconnection from browser
  */
-function handleWebSocketDisconnect(connId: string): void {
+function handleWebSocketDisconnect(connId: string, code?: unknown, reason?: unknown): void {
     const localWs = websocketConnections.get(connId);
     if (localWs) {
-        localWs.close();
+        if (isSendableCloseCode(code)) {
+            const text = typeof reason === 'string' && Buffer.byteLength(reason) <= MAX_CLOSE_REASON_BYTES ? reason : '';
+            localWs.close(code, text);
+        } else {
+            localWs.close();
+        }
         websocketConnections.delete(connId);
         console.log(`[Vortex] WebSocket disconnected for ${connId.substring(0, 8)}...`);
     }
@@ -1,26 +1,186 @@
 import express from 'express';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
-import { createServer } from 'http';
-import { WebSocketServer, WebSocket } from 'ws';
+import { createServer, IncomingMessage, STATUS_CODES } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, Server as WsServer } from 'ws';
 import * as path from 'path';
 import * as fs from 'fs';
-import { writeToPTY, resizePTY, onPTYData, onPTYExit, getLocalSize } from './pty';
+import * as crypto from 'crypto';
+import {
+    writeToPTY, resizePTY, onPTYData, onPTYExit, onPTYResize, getLocalSize, hasLocalTerminal, onLocalTerminalResize,
+    getLocalLastInputAt, onLocalTerminalInput, setPTYOutputPaused, isPTYOutputPaused, onPTYSpawn,
+    createPTYSession, listPTYSessions, getPTYSession, renamePTYSession, closePTYSession,
+    MAIN_SESSION_ID,
+} from './pty';
+import { listRecordings, getRecordingPath } from './recorder';
+import { writeScreen, resizeScreen, serializeScreen, disposeScreen, disposeAllScreens } from './screen';
+import { ScrollbackBuffer, DEFAULT_SCROLLBACK_BYTES } from './scrollback';
+import {
+    SizePolicy, SizeCandidate, TerminalSize, DEFAULT_SIZE_POLICY, parseSizePolicy, formatSizePolicy, resolveSize, clampSize,
+} from './size-policy';
+import { encodeOutputFrame } from './framing';
+import { verifyTOTP } from './totp';
+import { hasUsers, userExists, verifyUser } from './users';
+import { RateLimiter, formatWait } from './rate-limit';
+import { isDeviceApproved, requestDeviceApproval, describeUserAgent } from './devices';
+import { audit, auditInput } from './audit';
+import {
+    ProxyPolicy, DEFAULT_PROXY_HOSTS, PROXY_TIMEOUT, PROXY_MAX_BYTES, checkProxyURL, sanitizeProxyHeaders, createGuardedLookup,
+} from './proxy-guard';
+import { guardInput, answerGuard, releaseGuardClient, configureInputGuard, isInputGuardEnabled } from './input-guard';
+import { securityHeaders } from './http-security';
+import {
+    Invite, InviteRole, DEFAULT_INVITE_TTL, parseInviteRole, createInvite, redeemInvite, getInvite, isInviteActive, listInvites, revokeInvite, resetInvites,
+} from './invites';
+import { E2EChannel, E2EWebSocket, E2E_PROTOCOL, E2E_CLOSE_CODE, generateE2EKey } from './e2e';
+import {
+    ClientRole, AuthSession, DEFAULT_SESSION_TTL, createAuthSession, verifyAuthToken, revokeAuthSession, getAuthSession, resetAuth, safeEqual,
+    listAuthSessions, parseDuration, TUNNEL_HEADER, CLIENT_IP_HEADER, getTunnelSecret, createPairingToken, consumePairingToken,
+} from './auth';
+
+interface ClientInfo {
+    // Latest size the client reported, used for terminals it has no size of their own for
+    cols: number;
+    rows: number;
+    // Sizes reported for one terminal (resize messages with a sessionId)
+    sessionSizes?: Map<string, TerminalSize>;
+    id: string;
+    role: ClientRole;
+    ip: string;
+    // Login session the connection was authenticated with, closed when it is revoked
+    authSessionId?: string;
+    // Username, when that login was with a password (see users.ts)
+    user?: string;
+    // Used by the latest-active size policy
+    lastInputAt?: number;
+    // Last input from the browser, for --idle-lock
+    lastActiveAt: number;
+    // Locked by --idle-lock: nothing is sent or accepted until it logs in again
+    locked?: boolean;
+    // Voice input: the ASR gateway connection and its state
+    asrWs?: WebSocket | null;
+    sessionReady?: boolean;
+    audioChunkCount?: number;
+    terminalContext?: string;
+    connectedAt: number;
+    // Set by the client's hello message; output then goes out as binary frames
+    binary?: boolean;
+    // Too far behind: output is dropped until the socket drains, then the client is resynced
+    lagging?: boolean;
+    pendingResync?: boolean;
+    droppedBytes?: number;
+    resyncs?: number;
+    // Until the initial snapshot is sent, live messages are queued instead
+    syncing?: boolean;
+    queued?: Array<string | Buffer>;
+}
+
+// The browser a connection comes from, identified by its device cookie (see --approve-devices)
+interface DeviceInfo {
+    id: string;
+    userAgent: string;
+    ip: string;
+}
+
+type WsAuth = { role: ClientRole; authSessionId?: string; device?: DeviceInfo };
 
 let httpServer: ReturnType<typeof createServer> | null = null;
-let wss: WebSocketServer | null = null;
-let connectedClients: Map<WebSocket, { cols: number; rows: number; id: string; asrWs?: any }> = new Map();
+let wss: WsServer<typeof E2EWebSocket> | null = null;
+let connectedClients: Map<WebSocket, ClientInfo> = new Map();
 
 // PIN authentication state
 let serverPIN: string = '';
-let failedAttempts: Map<string, number> = new Map();
-let blockedIPs: Set<string> = new Set();
-const MAX_FAILED_ATTEMPTS = 10;
-const BLOCK_DURATION = 60000; // 1 minute in milliseconds
+let viewerPIN: string = '';
+// Base32 TOTP secret; when set, owners also need the code from their authenticator app
+let totpSecret: string = '';
+// Users were set up with `gogogo user add`, so logging in is required (see hasUserLogins)
+let userLogins = false;
+// New browsers wait for a y/N from the host terminal
+let approveDevices = false;
+// With --e2e, /ws payloads are encrypted with a key only the QR code carries (see e2e.ts)
+let e2eKey: Buffer | null = null;
+let sessionTTL = DEFAULT_SESSION_TTL;
+// Failed logins per client: 5 in a burst, one more each minute. Running out blocks the
+// client for a minute, doubling each time up to an hour.
+const loginLimiter = new RateLimiter({
+    capacity: 5,
+    refillInterval: 60 * 1000,
+    blockDuration: 60 * 1000,
+    maxBlockDuration: 60 * 60 * 1000,
+});
+// All login attempts together, so rotating addresses doesn't help either
+const globalLoginLimiter = new RateLimiter({ capacity: 30, refillInterval: 2000 });
+const GLOBAL_LOGIN_KEY = 'all';
+
+// Set from the host menu or /api/admin/input-lock; keystrokes from the web are dropped meanwhile
+let remoteInputLocked = false;
+
+// --idle-lock: logged-in clients quiet for this long must log in again (0 = never)
+let idleLockAfter = 0;
+let idleTimer: NodeJS.Timeout | null = null;
+// Removes the PTY and local terminal callbacks registered by startWebServer
+let unsubscribers: Array<() => void> = [];
+const IDLE_CHECK_INTERVAL = 15 * 1000;
+
+// Origins allowed to call the API and open /ws besides the page's own: the tunnel's public
+// URL once it is up, and --allow-origin
+let tunnelOrigin: string | null = null;
+let allowedOrigins: string[] = [];
+
+// Where /api/modelscope/proxy may send requests
+let proxyPolicy: ProxyPolicy = { allowedHosts: DEFAULT_PROXY_HOSTS, allowPrivate: false };
+
+// Terminal output scrollback (one per PTY session), paged through /api/history
+let outputBuffers: Map<string, ScrollbackBuffer> = new Map();
+let scrollbackBytes = DEFAULT_SCROLLBACK_BYTES;
+const MAX_HISTORY_PAGE_BYTES = 256 * 1024;
+const MAX_SESSION_NAME_LENGTH = 40;
+
+// PTY output is coalesced per session and sent every OUTPUT_FLUSH_INTERVAL, or
+// sooner once MAX_PENDING_OUTPUT characters are waiting
+let pendingOutput: Map<string, string[]> = new Map();
+let pendingOutputLength = 0;
+let outputFlushTimer: NodeJS.Timeout | null = null;
+const OUTPUT_FLUSH_INTERVAL = 16;
+const MAX_PENDING_OUTPUT = 64 * 1024;
+
+// Slow consumers: a client with more than CLIENT_LAG_BYTES unsent stops getting output
+// until it is back under CLIENT_RESUME_BYTES
+const CLIENT_LAG_BYTES = 1024 * 1024;
+const CLIENT_RESUME_BYTES = 64 * 1024;
+const BACKPRESSURE_CHECK_INTERVAL = 250;
+let backpressureTimer: NodeJS.Timeout | null = null;
+
+// One-time tokens that carry a login's role over to its WebSocket, since the
+// tunnel doesn't pass cookies along with the upgrade request
+let wsTokens: Map<string, WsAuth & { expiresAt: number }> = new Map();
+const WS_TOKEN_TTL = 30000;
+// Remembers a browser for --approve-devices
+const DEVICE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 * 1000;
+// Clients without cookies offer `gogogo.token.<token>` alongside `gogogo` as subprotocols
+const WS_PROTOCOL = 'gogogo';
+const WS_TOKEN_PROTOCOL_PREFIX = 'gogogo.token.';
+// How long a tunneled connection may take to send its 'auth' message
+const WS_AUTH_TIMEOUT = 10000;
+
+// WebSocket messages that drive a terminal or use ASR, ignored from viewers
+const CONTROL_MESSAGES = new Set([
+    'input', 'guard_answer', 'resize', 'size_policy', 'restart', 'asr_start', 'asr_audio', 'asr_commit', 'asr_stop', 'claude_process',
+]);
+
+// Whether the main command is running, so clients can offer to restart it after it exits
+interface MainProcessState {
+    running: boolean;
+    code?: number;
+    // Set while an automatic restart is scheduled
+    restartAt?: number;
+}
+let mainProcessState: MainProcessState = { running: true };
+const restartCallbacks: Array<() => void> = [];
 
-// Terminal output buffer for new connections
-let outputBuffer: string[] = [];
-const MAX_BUFFER_SIZE = 5000;
+// How the PTY size is chosen from the local terminal and the clients
+let sizePolicy: SizePolicy = DEFAULT_SIZE_POLICY;
 
 // Generate unique client ID
 let clientIdCounter = 0;
@@ -28,58 +188,831 @@ function generateClientId(): string {
     return `client-${Date.now()}-${++clientIdCounter}`;
 }
 
-// Calculate minimum size across all connected clients and local terminal
-function calculateMinSize(): { cols: number; rows: number } {
+// Calculate the PTY size from the local terminal and connected clients under the size policy
+function calculateSize(sessionId?: string): TerminalSize {
     const local = getLocalSize();
-    let minCols = local.cols;
-    let minRows = local.rows;
+    // A detached daemon has no local terminal to take into account
+    const localCandidate = hasLocalTerminal() ? { ...local, lastInputAt: getLocalLastInputAt() } : null;
 
-    // Find minimum dimensions across all connected clients
+    // Viewers and locked clients don't get a say
+    const clients: SizeCandidate[] = [];
     connectedClients.forEach((clientInfo) => {
-        if (clientInfo.cols > 0 && clientInfo.rows > 0) {
-            minCols = Math.min(minCols, clientInfo.cols);
-            minRows = Math.min(minRows, clientInfo.rows);
+        const { cols, rows } = (sessionId && clientInfo.sessionSizes?.get(sessionId)) || clientInfo;
+        if (clientInfo.role !== 'viewer' && !clientInfo.locked && cols > 0 && rows > 0) {
+            clients.push({ cols, rows, lastInputAt: clientInfo.lastInputAt || 0 });
         }
     });
 
-    return { cols: minCols, rows: minRows };
+    return resolveSize(sizePolicy, localCandidate, clients, local);
 }
 
-// Apply minimum size to PTY
-function applyMinSize(): void {
-    if (connectedClients.size === 0) {
-        // No web clients, use local size
-        const local = getLocalSize();
-        resizePTY(local.cols, local.rows);
+function sendToClient(client: WebSocket, clientInfo: ClientInfo, msg: string | Buffer): void {
+    if (clientInfo.locked) {
+        // Resynced with fresh snapshots once unlocked
         return;
     }
+    if (clientInfo.syncing) {
+        clientInfo.queued!.push(msg);
+    } else if (client.readyState === WebSocket.OPEN) {
+        client.send(msg);
+    }
+}
+
+/**
+ * Send a message to every connected client, after any output still waiting to go out
+ */
+function broadcast(payload: object): void {
+    flushOutput();
+    const msg = JSON.stringify(payload);
+    connectedClients.forEach((clientInfo, client) => sendToClient(client, clientInfo, msg));
+}
+
+function queueOutput(sessionId: string, data: string): void {
+    let chunks = pendingOutput.get(sessionId);
+    if (!chunks) {
+        chunks = [];
+        pendingOutput.set(sessionId, chunks);
+    }
+    chunks.push(data);
+    pendingOutputLength += data.length;
 
-    const { cols, rows } = calculateMinSize();
-    if (cols > 0 && rows > 0) {
-        resizePTY(cols, rows);
-        // Silently resize PTY to minimum dimensions
+    if (pendingOutputLength >= MAX_PENDING_OUTPUT) {
+        flushOutput();
+    } else if (!outputFlushTimer) {
+        outputFlushTimer = setTimeout(flushOutput, OUTPUT_FLUSH_INTERVAL);
     }
 }
 
 /**
- * Get client IP address from request
+ * Send coalesced output to every client, in the framing each one negotiated
  */
-function getClientIP(req: express.Request): string {
-    return req.ip || req.connection.remoteAddress || '127.0.0.1';
+function flushOutput(): void {
+    if (outputFlushTimer) {
+        clearTimeout(outputFlushTimer);
+        outputFlushTimer = null;
+    }
+    if (pendingOutput.size === 0) {
+        return;
+    }
+
+    const batches = pendingOutput;
+    pendingOutput = new Map();
+    pendingOutputLength = 0;
+
+    batches.forEach((chunks, sessionId) => {
+        const data = chunks.join('');
+        let json: string | null = null;
+        let frame: Buffer | null = null;
+
+        connectedClients.forEach((clientInfo, client) => {
+            if (isLagging(client, clientInfo)) {
+                clientInfo.pendingResync = true;
+                clientInfo.droppedBytes = (clientInfo.droppedBytes || 0) + data.length;
+                return;
+            }
+
+            if (clientInfo.binary) {
+                frame = frame || encodeOutputFrame(sessionId, data);
+                sendToClient(client, clientInfo, frame);
+            } else {
+                json = json || JSON.stringify({ type: 'output', sessionId, data });
+                sendToClient(client, clientInfo, json);
+            }
+        });
+    });
+}
+
+/**
+ * Whether a client is too far behind to be sent more output
+ */
+function isLagging(client: WebSocket, clientInfo: ClientInfo): boolean {
+    if (!clientInfo.lagging && client.bufferedAmount > CLIENT_LAG_BYTES) {
+        clientInfo.lagging = true;
+        console.log(`  [WebServer] Client ${clientInfo.id} is falling behind, holding back output`);
+        startBackpressureCheck();
+    }
+    return !!clientInfo.lagging;
+}
+
+function startBackpressureCheck(): void {
+    if (!backpressureTimer) {
+        backpressureTimer = setInterval(checkBackpressure, BACKPRESSURE_CHECK_INTERVAL);
+    }
+}
+
+/**
+ * Resync clients that have caught up, and pause the PTYs while every client is
+ * behind and no local terminal is reading
+ */
+function checkBackpressure(): void {
+    let allLagging = connectedClients.size > 0;
+
+    connectedClients.forEach((clientInfo, client) => {
+        if (clientInfo.lagging && client.bufferedAmount < CLIENT_RESUME_BYTES) {
+            if (clientInfo.pendingResync) {
+                // Output still pending is dropped for this client and arrives with the snapshot instead
+                flushOutput();
+                clientInfo.lagging = false;
+                resyncClient(client, clientInfo);
+            } else {
+                clientInfo.lagging = false;
+            }
+        }
+        if (!clientInfo.lagging) {
+            allLagging = false;
+        }
+    });
+
+    const pause = allLagging && !hasLocalTerminal();
+    if (pause !== isPTYOutputPaused()) {
+        console.log(`  [WebServer] ${pause ? 'Pausing' : 'Resuming'} terminal output`);
+        setPTYOutputPaused(pause);
+    }
+
+    if (!pause && !Array.from(connectedClients.values()).some((clientInfo) => clientInfo.lagging)) {
+        clearInterval(backpressureTimer!);
+        backpressureTimer = null;
+    }
 }
 
 /**
- * Check if IP is blocked
+ * Replace a client's screens with fresh snapshots after it missed output
+ */
+function resyncClient(ws: WebSocket, clientInfo: ClientInfo): void {
+    clientInfo.pendingResync = false;
+    clientInfo.resyncs = (clientInfo.resyncs || 0) + 1;
+    clientInfo.syncing = true;
+    clientInfo.queued = [];
+    syncClient(ws, clientInfo).catch((error) => {
+        console.error('  [WebServer] Failed to resync client:', error);
+    });
+}
+
+/**
+ * Send a new client the session list and a screen snapshot of every session,
+ * then whatever was broadcast while the snapshots were being taken
+ */
+async function syncClient(ws: WebSocket, clientInfo: ClientInfo): Promise<void> {
+    const sessions = listPTYSessions();
+    const sessionIds = sessions.map((session) => session.id);
+    // Keep showing the main screen after its command has exited
+    if (!sessionIds.includes(MAIN_SESSION_ID)) {
+        sessionIds.unshift(MAIN_SESSION_ID);
+    }
+
+    // Scrollback offsets the snapshots correspond to, for paging back via /api/history
+    const offsets = sessionIds.map((sessionId) => outputBuffers.get(sessionId)?.endOffset || 0);
+    const snapshots = await Promise.all(sessionIds.map((sessionId) => serializeScreen(sessionId)));
+
+    if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: 'sessions', sessions }));
+        snapshots.forEach((snapshot, index) => {
+            if (snapshot) {
+                // `data` stays an array so clients that replay raw chunks keep working
+                ws.send(JSON.stringify({
+                    type: 'history',
+                    sessionId: sessionIds[index],
+                    data: [snapshot.data],
+                    cols: snapshot.cols,
+                    rows: snapshot.rows,
+                    offset: offsets[index],
+                }));
+            }
+        });
+        ws.send(JSON.stringify(processStateMessage()));
+        clientInfo.queued!.forEach((msg) => ws.send(msg));
+    }
+
+    clientInfo.syncing = false;
+    clientInfo.queued = [];
+}
+
+/**
+ * Tell all clients about the current set of PTY sessions
+ */
+function broadcastSessions(): void {
+    broadcast({ type: 'sessions', sessions: listPTYSessions() });
+}
+
+/**
+ * Keep PTY output so that clients can page back through it
+ */
+function appendOutput(sessionId: string, data: string): void {
+    let buffer = outputBuffers.get(sessionId);
+    if (!buffer) {
+        buffer = new ScrollbackBuffer(scrollbackBytes);
+        outputBuffers.set(sessionId, buffer);
+    }
+    buffer.append(data);
+}
+
+// Apply the size policy to every PTY
+function applySizePolicy(): void {
+    listPTYSessions().forEach((session) => {
+        const { cols, rows } = calculateSize(session.id);
+        if (cols > 0 && rows > 0) {
+            resizePTY(cols, rows, session.id);
+        }
+    });
+}
+
+function processStateMessage(): object {
+    const { running, code, restartAt } = mainProcessState;
+    // Relative, so the client's clock doesn't matter
+    const restartIn = restartAt ? Math.max(0, restartAt - Date.now()) : undefined;
+    return { type: 'process_state', sessionId: MAIN_SESSION_ID, running, code, restartIn };
+}
+
+function broadcastProcessState(): void {
+    broadcast(processStateMessage());
+}
+
+/**
+ * Register a handler for restart requests from the web UI, sent after the main command exited
+ */
+export function onRestartRequest(callback: () => void): void {
+    restartCallbacks.push(callback);
+}
+
+/**
+ * Tell clients the main command will be restarted automatically at `restartAt`
+ */
+export function announceRestart(restartAt: number): void {
+    mainProcessState = { ...mainProcessState, restartAt };
+    broadcastProcessState();
+}
+
+/**
+ * Switch the size policy at runtime and tell every client
+ */
+export function setSizePolicy(policy: SizePolicy): void {
+    sizePolicy = policy;
+    console.log(`  [WebServer] Terminal size policy: ${formatSizePolicy(policy)}`);
+    broadcast({ type: 'size_policy', policy: formatSizePolicy(policy) });
+    applySizePolicy();
+}
+
+function isLoopback(address: string | undefined): boolean {
+    return address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1';
+}
+
+/**
+ * Whether a request was relayed by our own tunnel client, which proves it with the tunnel secret
+ */
+function isTunnelRequest(req: IncomingMessage): boolean {
+    const secret = req.headers[TUNNEL_HEADER];
+    return typeof secret === 'string' && isLoopback(req.socket.remoteAddress) && safeEqual(secret, getTunnelSecret());
+}
+
+/**
+ * Client IP address. X-Forwarded-For is never trusted; requests relayed by the tunnel
+ * carry the address the gateway saw in X-Gogogo-Client-IP instead.
+ */
+function getClientIP(req: IncomingMessage): string {
+    const forwarded = req.headers[CLIENT_IP_HEADER];
+    if (typeof forwarded === 'string' && forwarded && isTunnelRequest(req)) {
+        return forwarded;
+    }
+    return req.socket.remoteAddress || '127.0.0.1';
+}
+
+/**
+ * Check if IP is blocked after too many failed logins
  */
 function isIPBlocked(ip: string): boolean {
-    return blockedIPs.has(ip);
+    return loginLimiter.retryAfter(ip) > 0;
+}
+
+function sendTooManyAttempts(res: express.Response, wait: number): void {
+    res.set('Retry-After', String(Math.ceil(wait / 1000)));
+    res.status(429).json({ error: `Too many login attempts. Try again in ${formatWait(wait)}` });
+}
+
+/**
+ * Refuse a login attempt while the client, or everyone together, is over the limit.
+ * Attempts that get through count towards the global cap.
+ */
+function allowLoginAttempt(clientIP: string, res: express.Response): boolean {
+    const wait = Math.max(loginLimiter.retryAfter(clientIP), globalLoginLimiter.retryAfter(GLOBAL_LOGIN_KEY));
+    if (wait > 0) {
+        audit('login_blocked', { ip: clientIP });
+        sendTooManyAttempts(res, wait);
+        return false;
+    }
+    globalLoginLimiter.consume(GLOBAL_LOGIN_KEY);
+    return true;
+}
+
+/**
+ * Count a failed attempt and tell the client how many are left, or how long it is blocked
+ */
+function rejectLogin(clientIP: string, res: express.Response, message: string): void {
+    audit('login_failed', { ip: clientIP, reason: message });
+    const wait = loginLimiter.consume(clientIP);
+    if (wait > 0) {
+        console.log(`  [WebServer] Blocked ${clientIP} for ${formatWait(wait)} after failed logins`);
+        sendTooManyAttempts(res, wait);
+        return;
+    }
+    res.status(401).json({ error: `${message}. ${loginLimiter.remaining(clientIP)} attempts remaining` });
+}
+
+/**
+ * Role granted by a PIN entered at login, or null if it matches neither PIN
+ */
+function roleForPin(pin: string): ClientRole | null {
+    if (serverPIN && safeEqual(pin, serverPIN)) {
+        return 'owner';
+    }
+    if (viewerPIN && safeEqual(pin, viewerPIN)) {
+        return 'viewer';
+    }
+    return null;
+}
+
+/**
+ * Whether logging in is required at all (a PIN, TOTP or users are set up)
+ */
+/**
+ * Whether named users can log in. users.json is read again each time, so `gogogo user add`
+ * applies to a running session. Once on it stays on: removing the last user must not open
+ * the session up to everyone.
+ */
+function hasUserLogins(): boolean {
+    userLogins = userLogins || hasUsers();
+    return userLogins;
+}
+
+function isAuthRequired(): boolean {
+    return !!serverPIN || !!totpSecret || hasUserLogins();
+}
+
+/**
+ * The tunnel URL with a one-time pairing token in its fragment, which the login page
+ * redeems at /api/pair, and with --e2e the encryption key. Fragments never reach the gateway.
+ * Without either it's just the URL.
+ */
+export function createPairingURL(url: string): string {
+    const fragment = new URLSearchParams();
+    if (isAuthRequired()) {
+        fragment.set('pair', createPairingToken());
+    }
+    if (e2eKey) {
+        fragment.set('key', e2eKey.toString('base64url'));
+    }
+    const value = fragment.toString();
+    return value ? `${url}#${value}` : url;
+}
+
+export interface InviteOptions {
+    role: InviteRole;
+    ttl: number;
+    maxUses?: number;
+    // Leave out the --e2e key when the link travels over plain HTTP; the browser adds it
+    withoutKey?: boolean;
+}
+
+/**
+ * Mint an invite and put it in the fragment of the tunnel URL (with --e2e, next to the key).
+ * Whoever opens it is logged in with the invite's role until it expires or is revoked.
+ */
+export function createInviteURL(url: string, options: InviteOptions, by: string): { url: string; invite: InviteSummary } {
+    if (!isAuthRequired()) {
+        throw new Error('Anyone with the URL has full access already; invites need --pin, --totp or named users');
+    }
+    const { role, maxUses } = options;
+    const { token, invite } = createInvite(role, options.ttl, by, maxUses);
+    const fragment = new URLSearchParams({ invite: token });
+    if (e2eKey && !options.withoutKey) {
+        fragment.set('key', e2eKey.toString('base64url'));
+    }
+    console.log(`  [WebServer] Invite ${invite.id} created for a${role === 'operator' ? 'n' : ''} ${role}, until ${new Date(invite.expiresAt).toLocaleString()}`);
+    audit('invite_created', { invite: invite.id, role, expiresAt: invite.expiresAt, maxUses, by });
+    return { url: `${url}#${fragment.toString()}`, invite: summarizeInvite(invite) };
+}
+
+export interface InviteSummary extends Invite {
+    active: boolean;
+    // Login sessions started from it that haven't expired
+    logins: number;
+}
+
+function summarizeInvite(invite: Invite): InviteSummary {
+    const logins = listAuthSessions().filter((session) => session.invite === invite.id).length;
+    return { ...invite, active: isInviteActive(invite), logins };
+}
+
+export function listInviteSummaries(): InviteSummary[] {
+    return listInvites().map(summarizeInvite);
+}
+
+/**
+ * Revoke an invite (by id or unique id prefix) and log out everyone who came in with it.
+ * Returns the invite, or null if none matched.
+ */
+export function revokeInviteLink(idPrefix: string, by: string): InviteSummary | null {
+    const invite = revokeInvite(idPrefix);
+    if (!invite) {
+        return null;
+    }
+    listAuthSessions().filter((session) => session.invite === invite.id).forEach((session) => {
+        revokeAuthSession(session.id);
+        disconnectAuthSession(session.id);
+    });
+    console.log(`  [WebServer] Invite ${invite.id} revoked`);
+    audit('invite_revoked', { invite: invite.id, by });
+    return summarizeInvite(invite);
+}
+
+export function isE2EEnabled(): boolean {
+    return e2eKey !== null;
+}
+
+/**
+ * Role granted by a login. With TOTP enabled, owners need the current code as well as
+ * the PIN (if there is one); the viewer PIN alone still grants read-only access.
+ */
+function roleForLogin(pin: string, code: unknown): ClientRole | null {
+    const pinRole = roleForPin(pin);
+    if (pinRole === 'viewer') {
+        return 'viewer';
+    }
+    // With users set up, logging in without a PIN takes a username
+    if (!serverPIN && hasUserLogins()) {
+        return null;
+    }
+    if (serverPIN && pinRole !== 'owner') {
+        return null;
+    }
+    if (totpSecret && !verifyTOTP(totpSecret, code)) {
+        return null;
+    }
+    return 'owner';
+}
+
+/**
+ * Role and login session for an auth cookie. Without a PIN or TOTP everyone is an owner.
+ */
+function authForToken(token: string | undefined): { role: ClientRole; session: AuthSession | null } | null {
+    if (!isAuthRequired()) {
+        return { role: 'owner', session: null };
+    }
+    const session = verifyAuthToken(token);
+    if (session && session.user && !userExists(session.user)) {
+        // Removed with `gogogo user remove` since logging in
+        revokeAuthSession(session.id);
+        return null;
+    }
+    if (session && session.invite && getInvite(session.invite)?.revokedAt) {
+        revokeAuthSession(session.id);
+        return null;
+    }
+    return session ? { role: session.role, session } : null;
+}
+
+function getAuth(req: express.Request): { role: ClientRole; session: AuthSession | null } | null {
+    return authForToken(req.cookies ? req.cookies.auth : undefined);
+}
+
+function getRole(req: express.Request): ClientRole | null {
+    const auth = getAuth(req);
+    return auth ? auth.role : null;
+}
+
+/**
+ * Cookie attributes for the auth token. Secure whenever the browser reached us over
+ * HTTPS (the tunnel sets X-Forwarded-Proto), so plain http://localhost keeps working.
+ */
+function authCookieOptions(req: express.Request): express.CookieOptions {
+    return {
+        httpOnly: true,
+        secure: isSecureRequest(req),
+        sameSite: 'lax',
+    };
+}
+
+function isSecureRequest(req: express.Request): boolean {
+    return req.secure || (isTunnelRequest(req) && req.get('x-forwarded-proto') === 'https');
+}
+
+/**
+ * Close WebSocket connections opened with a login session that has been revoked
+ */
+function disconnectAuthSession(authSessionId: string): void {
+    connectedClients.forEach((clientInfo, client) => {
+        if (clientInfo.authSessionId === authSessionId) {
+            client.close(4001, 'Logged out');
+        }
+    });
+}
+
+/**
+ * How a client appears in logs: "alice (client-…, 1.2.3.4)", or without the name
+ */
+function describeClient(clientInfo: ClientInfo): string {
+    return clientInfo.user
+        ? `${clientInfo.user} (${clientInfo.id}, ${clientInfo.ip})`
+        : `${clientInfo.id} (${clientInfo.ip})`;
+}
+
+/**
+ * Username of a login session, if it logged in with a password
+ */
+function userForAuthSession(authSessionId: string | undefined): string | undefined {
+    return authSessionId ? getAuthSession(authSessionId)?.user : undefined;
+}
+
+export interface ClientSummary {
+    id: string;
+    role: ClientRole;
+    user?: string;
+    ip: string;
+    connectedAt: number;
+    lastInputAt?: number;
+}
+
+export function listClients(): ClientSummary[] {
+    return Array.from(connectedClients.values()).map((clientInfo) => ({
+        id: clientInfo.id,
+        role: clientInfo.role,
+        user: clientInfo.user,
+        ip: clientInfo.ip,
+        connectedAt: clientInfo.connectedAt,
+        lastInputAt: clientInfo.lastInputAt,
+    }));
+}
+
+/**
+ * Disconnect a client (by id or unique id prefix) and revoke its login, so it can't
+ * reconnect without logging in again. Returns the client, or null if none matched.
+ */
+export function kickClient(idPrefix: string, by: string): ClientSummary | null {
+    const matches = Array.from(connectedClients.entries()).filter(([, clientInfo]) => clientInfo.id.startsWith(idPrefix));
+    const exact = matches.find(([, clientInfo]) => clientInfo.id === idPrefix);
+    const match = exact || (matches.length === 1 ? matches[0] : null);
+    if (!match) {
+        return null;
+    }
+
+    const [client, clientInfo] = match;
+    const summary = listClients().find((entry) => entry.id === clientInfo.id)!;
+    client.close(4002, 'Disconnected by the host');
+    if (clientInfo.authSessionId) {
+        // Other tabs on the same login go too
+        revokeAuthSession(clientInfo.authSessionId);
+        disconnectAuthSession(clientInfo.authSessionId);
+    }
+    console.log(`  [WebServer] Kicked ${describeClient(clientInfo)}`);
+    audit('client_kicked', { client: clientInfo.id, ip: clientInfo.ip, user: clientInfo.user, by });
+    return summary;
+}
+
+/**
+ * Log everyone out: logins, pairing and WebSocket tokens stop working and every browser is
+ * disconnected (those that still may, reconnect). Returns how many were connected.
+ */
+export function invalidateSessions(by: string): number {
+    resetAuth();
+    resetInvites();
+    wsTokens.clear();
+    const count = connectedClients.size;
+    connectedClients.forEach((clientInfo, client) => client.close(4001, 'Logged out'));
+    console.log(`  [WebServer] Logged out all sessions (${count} connected)`);
+    audit('sessions_invalidated', { by, disconnected: count });
+    return count;
+}
+
+/**
+ * Switch to a new PIN (random unless given) and log everyone out. Returns the PIN.
+ */
+export function rotatePIN(by: string, pin?: string): string {
+    if (!serverPIN) {
+        throw new Error('This session has no PIN to rotate');
+    }
+    if (pin !== undefined && !/^\d{6}$/.test(pin)) {
+        throw new Error('PIN must be exactly 6 digits');
+    }
+    let newPIN = pin;
+    while (!newPIN || newPIN === viewerPIN) {
+        if (pin !== undefined) {
+            throw new Error('PIN must differ from the viewer PIN');
+        }
+        newPIN = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    }
+
+    serverPIN = newPIN;
+    audit('pin_rotated', { by });
+    invalidateSessions(by);
+    return newPIN;
+}
+
+/**
+ * Lock logged-in clients that have been quiet for longer than --idle-lock: their login is
+ * revoked and they get nothing more until they log in again (see the 'auth' message)
+ */
+function checkIdleClients(): void {
+    const now = Date.now();
+    let lockedAny = false;
+    connectedClients.forEach((clientInfo, client) => {
+        if (clientInfo.locked || !clientInfo.authSessionId || now - clientInfo.lastActiveAt < idleLockAfter) {
+            return;
+        }
+
+        revokeAuthSession(clientInfo.authSessionId);
+        flushOutput();
+        client.send(JSON.stringify({
+            type: 'locked',
+            reason: 'idle',
+            // Which fields the browser has to ask for
+            login: { pin: !!serverPIN, users: hasUserLogins(), code: !!totpSecret },
+        }));
+        clientInfo.locked = true;
+        console.log(`  [WebServer] Locked ${describeClient(clientInfo)} after ${formatWait(now - clientInfo.lastActiveAt)} idle`);
+        audit('idle_locked', { client: clientInfo.id, ip: clientInfo.ip, user: clientInfo.user });
+        lockedAny = true;
+    });
+    if (lockedAny) {
+        applySizePolicy();
+    }
+}
+
+/**
+ * Stop (or resume) passing keystrokes from browsers to the terminals
+ */
+export function setRemoteInputLocked(locked: boolean, by: string): void {
+    remoteInputLocked = locked;
+    console.log(`  [WebServer] Remote input ${locked ? 'locked' : 'unlocked'}`);
+    audit(locked ? 'input_locked' : 'input_unlocked', { by });
+    broadcast({ type: 'input_lock', locked });
+}
+
+export function isRemoteInputLocked(): boolean {
+    return remoteInputLocked;
 }
 
 /**
  * Check if user is authenticated via cookie
  */
 function isAuthenticated(req: express.Request): boolean {
-    return req.cookies && req.cookies.auth === serverPIN;
+    return getRole(req) !== null;
+}
+
+/**
+ * Reject requests from viewers
+ */
+function requireOperator(req: express.Request, res: express.Response, next: express.NextFunction): void {
+    if (getRole(req) === 'viewer') {
+        res.status(403).json({ error: 'Viewers have read-only access' });
+        return;
+    }
+    next();
+}
+
+/**
+ * Reject requests from anyone but owners
+ */
+function requireOwner(req: express.Request, res: express.Response, next: express.NextFunction): void {
+    const role = getRole(req);
+    if (role !== 'owner') {
+        res.status(403).json({ error: role === 'viewer' ? 'Viewers have read-only access' : 'Only owners can do that' });
+        return;
+    }
+    next();
+}
+
+/**
+ * Audit a request from a logged-in browser, with who made it
+ */
+function auditRequest(req: express.Request, event: string, fields: Record<string, unknown> = {}): void {
+    const auth = getAuth(req);
+    audit(event, { ip: getClientIP(req), role: auth?.role, user: auth?.session?.user, ...fields });
+}
+
+/**
+ * Reject requests that start or stop terminals while remote input is locked
+ */
+function requireInputUnlocked(req: express.Request, res: express.Response, next: express.NextFunction): void {
+    if (remoteInputLocked) {
+        res.status(423).json({ error: 'Remote input is locked by the host' });
+        return;
+    }
+    next();
+}
+
+/**
+ * Read a cookie from a raw Cookie header (WebSocket upgrades skip cookie-parser).
+ * A value that isn't valid percent-encoding counts as missing.
+ */
+function cookieFromHeader(header: string | undefined, cookieName: string): string | undefined {
+    for (const part of (header || '').split(';')) {
+        const [name, ...value] = part.trim().split('=');
+        if (name === cookieName) {
+            try {
+                return decodeURIComponent(value.join('='));
+            } catch {
+                return undefined;
+            }
+        }
+    }
+    return undefined;
+}
+
+function deviceFromRequest(req: IncomingMessage, deviceId: string | undefined): DeviceInfo | undefined {
+    if (!deviceId) {
+        return undefined;
+    }
+    return { id: deviceId, userAgent: req.headers['user-agent'] || '', ip: getClientIP(req) };
+}
+
+function issueWsToken(role: ClientRole, authSessionId?: string, device?: DeviceInfo): string {
+    const now = Date.now();
+    wsTokens.forEach((entry, token) => {
+        if (entry.expiresAt < now) wsTokens.delete(token);
+    });
+
+    const token = crypto.randomBytes(16).toString('hex');
+    wsTokens.set(token, { role, authSessionId, device, expiresAt: now + WS_TOKEN_TTL });
+    return token;
+}
+
+function consumeWsToken(token: unknown): WsAuth | null {
+    if (typeof token !== 'string') return null;
+    const entry = wsTokens.get(token);
+    wsTokens.delete(token);
+    return entry && entry.expiresAt >= Date.now() ? entry : null;
+}
+
+/**
+ * Browsers send an Origin on WebSocket upgrades and cross-site requests, so a foreign one
+ * means another site is trying to use the visitor's cookie. Allowed are the page's own
+ * origin, the tunnel's and --allow-origin. Clients without one are let through here, but
+ * WebSocket upgrades without one can't log in with the cookie (see authorizeUpgrade).
+ */
+function isAllowedOrigin(origin: string | undefined, host: string | undefined): boolean {
+    if (origin === undefined) {
+        return true;
+    }
+    try {
+        const url = new URL(origin);
+        return (!!host && url.host === host) || url.origin === tunnelOrigin || allowedOrigins.includes(url.origin);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Tell the server its public URL, so pages loaded through the tunnel may call the API.
+ * Tunneled requests reach us with a localhost Host header.
+ */
+export function setTunnelURL(url: string): void {
+    tunnelOrigin = new URL(url).origin;
+}
+
+/**
+ * Authenticate a WebSocket upgrade from its cookie or token subprotocol. `auth` is null
+ * for tunneled connections, which are held until they send an 'auth' message.
+ */
+function authorizeUpgrade(req: IncomingMessage): { status: number; auth?: WsAuth | null } {
+    if (!isAllowedOrigin(req.headers.origin, req.headers.host)) {
+        return { status: 403 };
+    }
+    const device = deviceFromRequest(req, cookieFromHeader(req.headers.cookie, 'device'));
+    if (!isAuthRequired()) {
+        return { status: 101, auth: { role: 'owner', device } };
+    }
+
+    const protocols = (req.headers['sec-websocket-protocol'] || '').split(',').map((p) => p.trim());
+    const offered = protocols.find((p) => p.startsWith(WS_TOKEN_PROTOCOL_PREFIX));
+    if (offered) {
+        // Either a one-time token from /api/ws-token or the login token itself
+        const token = offered.slice(WS_TOKEN_PROTOCOL_PREFIX.length);
+        const tokenAuth = consumeWsToken(token);
+        if (tokenAuth) {
+            return { status: 101, auth: tokenAuth };
+        }
+        const session = authForToken(token)?.session;
+        return session
+            ? { status: 101, auth: { role: session.role, authSessionId: session.id, device } }
+            : { status: 401 };
+    }
+
+    // Browsers always send an Origin; without one the cookie may not be the visitor's choice
+    const cookieAuth = req.headers.origin !== undefined
+        ? authForToken(cookieFromHeader(req.headers.cookie, 'auth'))
+        : null;
+    if (cookieAuth) {
+        return { status: 101, auth: { role: cookieAuth.role, authSessionId: cookieAuth.session?.id, device } };
+    }
+
+    if (isTunnelRequest(req)) {
+        return { status: 101, auth: null };
+    }
+    return { status: 401 };
+}
+
+function rejectUpgrade(socket: Duplex, status: number): void {
+    socket.once('finish', () => socket.destroy());
+    socket.end(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
 }
 
 /**
@@ -90,7 +1023,7 @@ function requireAuth(req: express.Request, res: express.Response, next: express.
 
     // Check if IP is blocked
     if (isIPBlocked(clientIP)) {
-        res.status(429).json({ error: 'IP blocked due to too many failed attempts' });
+        sendTooManyAttempts(res, loginLimiter.retryAfter(clientIP));
         return;
     }
 
@@ -112,14 +1045,56 @@ function requireAuth(req: express.Request, res: express.Response, next: express.
 /**
  * Generate login page HTML
  */
-function generateLoginPage(): string {
+function generateLoginPage(nonce: string): string {
+    const withUsers = hasUserLogins();
+    const prompt = withUsers
+        ? totpSecret
+            ? 'Log in with your username, password and authenticator code'
+            : 'Log in with your username and password'
+        : serverPIN && totpSecret
+            ? 'Enter your PIN and the code from your authenticator app'
+            : totpSecret
+                ? 'Enter the code from your authenticator app'
+                : 'Enter your 6-digit PIN to access the terminal';
+    // With users and a PIN both set up, the form switches between the two
+    const userFields = withUsers ? `
+            <div id="user-fields">
+                <div class="form-group">
+                    <label for="username">Username</label>
+                    <input type="text" id="username" name="username" autocomplete="username" autocapitalize="off" spellcheck="false">
+                </div>
+                <div class="form-group">
+                    <label for="password">Password</label>
+                    <input type="password" id="password" name="password" autocomplete="current-password">
+                </div>
+            </div>` : '';
+    const pinField = serverPIN ? `
+            <div class="form-group" id="pin-fields"${withUsers ? ' style="display: none"' : ''}>
+                <label for="pin">PIN</label>
+                <input type="text" id="pin" name="pin" placeholder="000000" maxlength="6" inputmode="numeric" autocomplete="off">
+            </div>` : '';
+    const modeSwitch = withUsers && serverPIN
+        ? '<button type="button" id="mode-btn" class="link-btn">Use the PIN instead</button>'
+        : '';
+    // Viewers log in with the viewer PIN or a viewer account alone, so the code can be left empty then
+    const codeField = totpSecret ? `
+            <div class="form-group">
+                <label for="code">Authenticator code</label>
+                <input type="text" id="code" name="code" placeholder="000000" maxlength="6" inputmode="numeric" autocomplete="one-time-code"${viewerPIN || withUsers ? '' : ' required'}>
+            </div>` : '';
+    const info = withUsers
+        ? 'Ask the host for an account (<code>gogogo user add</code>).'
+        : totpSecret && !serverPIN
+            ? 'Scan the enrollment QR shown by <code>gogogo totp</code> to set up your app.'
+            : 'The PIN was displayed when the server started.';
+
     return `
 <!DOCTYPE html>
 <html>
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>gogogo - Enter PIN</title>
+    <title>gogogo - Log in</title>
     <style>
         * { margin: 0; padding: 0; box-sizing: border-box; }
         body {
@@ -161,7 +1136,7 @@ function generateLoginPage(): string {
             margin-bottom: 0.5rem;
             color: #ccc;
         }
-        input[type="text"] {
+        input[type="text"], input[type="password"] {
             width: 100%;
             padding: 0.75rem;
             background: #0a0a0a;
@@ -172,7 +1147,11 @@ function generateLoginPage(): string {
             text-align: center;
             letter-spacing: 0.1em;
         }
-        input[type="text"]:focus {
+        #username, #password {
+            text-align: left;
+            letter-spacing: normal;
+        }
+        input[type="text"]:focus, input[type="password"]:focus {
             outline: none;
             border-color: #3b82f6;
         }
@@ -200,6 +1179,15 @@ function generateLoginPage(): string {
             margin-top: 0.5rem;
             text-align: center;
         }
+        .link-btn {
+            display: block;
+            margin: 1rem auto 0;
+            background: none;
+            border: none;
+            color: #3b82f6;
+            font-size: 0.85rem;
+            cursor: pointer;
+        }
         .info {
             color: #888;
             font-size: 0.8rem;
@@ -212,46 +1200,100 @@ function generateLoginPage(): string {
     <div class="login-container">
         <div class="logo">
             <h1>🚀 gogogo</h1>
-            <p>Enter your 6-digit PIN to access the terminal</p>
+            <p>${prompt}</p>
         </div>
 
-        <form id="loginForm">
-            <div class="form-group">
-                <label for="pin">PIN</label>
-                <input type="text" id="pin" name="pin" placeholder="000000" maxlength="6" required autocomplete="off">
-            </div>
+        <form id="loginForm">${userFields}${pinField}${codeField}
             <button type="submit" class="submit-btn">Access Terminal</button>
             <div id="error-message" class="error"></div>
+            ${modeSwitch}
         </form>
 
         <div class="info">
-            The PIN was displayed when the server started.
+            ${info}
         </div>
     </div>
 
-    <script>
+    <script nonce="${nonce}">
         const form = document.getElementById('loginForm');
+        const usernameInput = document.getElementById('username');
+        const passwordInput = document.getElementById('password');
         const pinInput = document.getElementById('pin');
+        const codeInput = document.getElementById('code');
+        const modeBtn = document.getElementById('mode-btn');
         const errorDiv = document.getElementById('error-message');
         const submitBtn = form.querySelector('.submit-btn');
 
-        // Auto-focus on PIN input
-        pinInput.focus();
+        // Logging in as a named user, rather than with the PIN
+        let userMode = !!usernameInput;
+        function currentInputs() {
+            return (userMode ? [usernameInput, passwordInput] : [pinInput]).concat(codeInput).filter(Boolean);
+        }
+        if (modeBtn) {
+            modeBtn.addEventListener('click', () => {
+                userMode = !userMode;
+                document.getElementById('user-fields').style.display = userMode ? '' : 'none';
+                document.getElementById('pin-fields').style.display = userMode ? 'none' : '';
+                modeBtn.textContent = userMode ? 'Use the PIN instead' : 'Use a username';
+                errorDiv.textContent = '';
+                currentInputs()[0].focus();
+            });
+        }
+
+        // Auto-focus on the first input
+        currentInputs()[0].focus();
 
-        // Allow only digits
-        pinInput.addEventListener('input', (e) => {
+        // Opened from a QR code or invite link: keep an --e2e key for the terminal page, and
+        // redeem a pairing token or invite instead of asking for the PIN
+        const fragment = new URLSearchParams(location.hash.slice(1));
+        if (fragment.get('key')) {
+            localStorage.setItem('gogogo-e2e-key', fragment.get('key'));
+        }
+        const pairToken = fragment.get('pair');
+        const inviteToken = fragment.get('invite');
+        if (location.hash) {
+            history.replaceState(null, '', location.pathname);
+        }
+        if (pairToken || inviteToken) {
+            fetch(pairToken ? '/api/pair' : '/api/invite', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token: pairToken || inviteToken })
+            }).then(async (response) => {
+                if (response.ok) {
+                    window.location.href = '/';
+                } else {
+                    const result = await response.json();
+                    errorDiv.textContent = result.error || (pairToken ? 'Pairing failed' : 'This invite link did not work');
+                }
+            }).catch(() => {
+                errorDiv.textContent = 'Network error. Please try again.';
+            });
+        }
+
+        // Allow only digits in the PIN and code
+        [pinInput, codeInput].filter(Boolean).forEach((field) => field.addEventListener('input', (e) => {
             e.target.value = e.target.value.replace(/[^0-9]/g, '');
-        });
+        }));
 
         form.addEventListener('submit', async (e) => {
             e.preventDefault();
 
-            const pin = pinInput.value.trim();
+            const pin = pinInput ? pinInput.value.trim() : '';
+            const code = codeInput ? codeInput.value.trim() : '';
 
-            if (pin.length !== 6) {
+            if (userMode && (!usernameInput.value.trim() || !passwordInput.value)) {
+                errorDiv.textContent = 'Enter your username and password';
+                return;
+            }
+            if (!userMode && pinInput && pin.length !== 6) {
                 errorDiv.textContent = 'PIN must be exactly 6 digits';
                 return;
             }
+            if (!userMode && codeInput && codeInput.required && code.length !== 6) {
+                errorDiv.textContent = 'Code must be exactly 6 digits';
+                return;
+            }
 
             submitBtn.disabled = true;
             submitBtn.textContent = 'Verifying...';
@@ -261,7 +1303,9 @@ function generateLoginPage(): string {
                 const response = await fetch('/api/login', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ pin })
+                    body: JSON.stringify(userMode
+                        ? { username: usernameInput.value.trim(), password: passwordInput.value, code }
+                        : { pin, code })
                 });
 
                 const result = await response.json();
@@ -271,8 +1315,10 @@ function generateLoginPage(): string {
                     window.location.href = '/';
                 } else {
                     errorDiv.textContent = result.error || 'Authentication failed';
-                    pinInput.value = '';
-                    pinInput.focus();
+                    // Keep the username for another try
+                    const retry = currentInputs().filter((field) => field !== usernameInput);
+                    retry.forEach((field) => { field.value = ''; });
+                    retry[0].focus();
                 }
             } catch (error) {
                 errorDiv.textContent = 'Network error. Please try again.';
@@ -288,6 +1334,29 @@ function generateLoginPage(): string {
 
 export interface WebServerOptions {
     debugAsr?: boolean;
+    // Second PIN that grants read-only access
+    viewerPin?: string;
+    // How long a login lasts
+    sessionTTL?: number;
+    // Per-session scrollback cap in bytes
+    scrollbackBytes?: number;
+    sizePolicy?: SizePolicy;
+    // Require a TOTP code from this base32 secret to log in as owner
+    totpSecret?: string;
+    // Ask in the local terminal before a new browser may connect
+    approveDevices?: boolean;
+    // Hosts /api/modelscope/proxy may reach (default: the ModelScope API)
+    proxyHosts?: string[];
+    // Let the proxy reach loopback and private addresses
+    proxyAllowPrivate?: boolean;
+    // Encrypt /ws payloads end to end with a key handed out in the QR code
+    e2e?: boolean;
+    // Hold remote lines matching these patterns until confirmed (see input-guard.ts)
+    guardPatterns?: string[];
+    // Lock logged-in browsers after this long without a message from them
+    idleLock?: number;
+    // Other origins that may use the API, e.g. a custom front end
+    allowOrigins?: string[];
 }
 
 // ASR debug logging flag
@@ -307,6 +1376,9 @@ async function processWithClaude(ws: WebSocket, transcript: string, context: str
     asrLog('[Claude] Context length:', context?.length || 0);
     asrLog('[Claude] Model:', model);
 
+    // Use dynamic import for axios
+    const axios = (await import('axios')).default;
+
     try {
         const systemPrompt = `You are a speech-to-text correction assistant for a terminal/coding environment. Your ONLY job is to fix transcription errors based on context and common sense.
 
@@ -355,9 +1427,6 @@ ${context || ''}`;
 
 Output the corrected text only, with no explanations or parenthetical notes.`;
 
-        // Use dynamic import for axios
-        const axios = (await import('axios')).default;
-
         asrLog('[Claude] Sending request to Claude API...');
 
         const response = await axios({
@@ -419,33 +1488,115 @@ Output the corrected text only, with no explanations or parenthetical notes.`;
             }
         });
 
-        response.data.on('end', () => {
-            asrLog('[Claude] Streaming complete');
-            ws.send(JSON.stringify({
-                type: 'claude_response',
-                data: { done: true }
-            }));
-        });
+        response.data.on('end', () => {
+            asrLog('[Claude] Streaming complete');
+            ws.send(JSON.stringify({
+                type: 'claude_response',
+                data: { done: true }
+            }));
+        });
+
+        response.data.on('error', (error: Error) => {
+            console.error('[Claude] Stream error:', error);
+            ws.send(JSON.stringify({
+                type: 'claude_response',
+                data: { error: error.message, fallback: transcript }
+            }));
+        });
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('[Claude] API error:', message);
+        if (axios.isAxiosError(error) && error.response) {
+            console.error('[Claude] Response status:', error.response.status);
+            console.error('[Claude] Response data:', error.response.data);
+        }
+        // Send error to client with fallback
+        ws.send(JSON.stringify({
+            type: 'claude_response',
+            data: { error: message, fallback: transcript }
+        }));
+    }
+}
+
+/**
+ * A page of a session's scrollback ending at `before` (newest first), for /api/history and
+ * the WebSocket's history_page message. Query values may arrive as strings or numbers.
+ */
+function readHistoryPage(sessionIdValue: unknown, beforeValue: unknown, limitValue: unknown): { status: number; body: object } {
+    const sessionId = typeof sessionIdValue === 'string' ? sessionIdValue : MAIN_SESSION_ID;
+    const outputBuffer = outputBuffers.get(sessionId);
+    if (!outputBuffer) {
+        return { status: 404, body: { error: 'Session not found' } };
+    }
+
+    const before = beforeValue !== undefined ? Number(beforeValue) : outputBuffer.endOffset;
+    const limit = limitValue !== undefined ? Number(limitValue) : 64 * 1024;
+    if (!Number.isInteger(before) || before < 0 || !Number.isInteger(limit) || limit <= 0) {
+        return { status: 400, body: { error: 'before and limit must be non-negative integers' } };
+    }
+
+    const page = outputBuffer.read(before, Math.min(limit, MAX_HISTORY_PAGE_BYTES));
+    return {
+        status: 200,
+        body: {
+            sessionId,
+            ...page,
+            oldest: outputBuffer.startOffset,
+            latest: outputBuffer.endOffset,
+        },
+    };
+}
+
+/**
+ * Send a request for the browser to an allowlisted host and relay the JSON response
+ */
+async function forwardProxyRequest(res: express.Response, method: 'GET' | 'POST', url: unknown, headers: unknown, body?: unknown): Promise<void> {
+    let target: URL;
+    try {
+        target = checkProxyURL(url, proxyPolicy);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.log(`  [ModelScope Proxy] Refused: ${message}`);
+        res.status(403).json({ error: message });
+        return;
+    }
+
+    const requestHeaders = sanitizeProxyHeaders(headers);
+    console.log('[ModelScope Proxy] Request to:', target.origin + target.pathname);
 
-        response.data.on('error', (error: any) => {
-            console.error('[Claude] Stream error:', error);
-            ws.send(JSON.stringify({
-                type: 'claude_response',
-                data: { error: error.message, fallback: transcript }
-            }));
+    const axios = (await import('axios')).default;
+    try {
+        const response = await axios({
+            method,
+            url: target.toString(),
+            headers: requestHeaders,
+            data: body,
+            timeout: PROXY_TIMEOUT,
+            maxContentLength: PROXY_MAX_BYTES,
+            maxBodyLength: PROXY_MAX_BYTES,
+            // A redirect could lead off the allowlist
+            maxRedirects: 0,
+            // Ignore HTTP(S)_PROXY, which would bypass the address check
+            proxy: false,
+            lookup: createGuardedLookup(proxyPolicy),
         });
 
-    } catch (error: any) {
-        console.error('[Claude] API error:', error.message);
-        if (error.response) {
-            console.error('[Claude] Response status:', error.response.status);
-            console.error('[Claude] Response data:', error.response.data);
-        }
-        // Send error to client with fallback
-        ws.send(JSON.stringify({
-            type: 'claude_response',
-            data: { error: error.message, fallback: transcript }
-        }));
+        res.json(response.data);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('[ModelScope Proxy] Error:', message);
+        const response = axios.isAxiosError(error) ? error.response : undefined;
+        if (response) {
+            console.error('[ModelScope Proxy] Response status:', response.status);
+        }
+        const code = axios.isAxiosError(error) ? error.code : undefined;
+        const timedOut = code === 'ECONNABORTED' || code === 'ETIMEDOUT';
+        res.status(response?.status || (timedOut ? 504 : 502)).json({
+            error: response?.data?.message || message,
+            status: response?.status,
+            details: response?.data
+        });
     }
 }
 
@@ -453,6 +1604,25 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
     return new Promise((resolve, reject) => {
         // Set the server PIN
         serverPIN = pin || '';
+        viewerPIN = (serverPIN && options.viewerPin) || '';
+        totpSecret = options.totpSecret || '';
+        userLogins = false;
+        approveDevices = options.approveDevices || false;
+        e2eKey = options.e2e ? generateE2EKey() : null;
+        remoteInputLocked = false;
+        idleLockAfter = options.idleLock || 0;
+        tunnelOrigin = null;
+        allowedOrigins = options.allowOrigins || [];
+        configureInputGuard(options.guardPatterns || null);
+        proxyPolicy = {
+            allowedHosts: options.proxyHosts || DEFAULT_PROXY_HOSTS,
+            allowPrivate: options.proxyAllowPrivate || false,
+        };
+        sessionTTL = options.sessionTTL || DEFAULT_SESSION_TTL;
+
+        scrollbackBytes = options.scrollbackBytes || DEFAULT_SCROLLBACK_BYTES;
+        sizePolicy = options.sizePolicy || DEFAULT_SIZE_POLICY;
+        mainProcessState = { running: true };
 
         // Set ASR debug logging flag
         debugAsrEnabled = options.debugAsr || false;
@@ -461,18 +1631,49 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
         }
 
         // Reset authentication state
-        failedAttempts.clear();
-        blockedIPs.clear();
+        loginLimiter.clear();
+        globalLoginLimiter.clear();
+        wsTokens.clear();
+        resetAuth();
+        resetInvites();
 
         const app = express();
 
-        // Trust proxy for getting real client IP
-        app.set('trust proxy', true);
+        // Forwarding headers are spoofable; see getClientIP and authCookieOptions
+        app.set('trust proxy', false);
 
-        app.use(cors());
+        app.use(securityHeaders({
+            isSecure: isSecureRequest,
+            // Older Safari doesn't count wss:// to its own host as 'self'
+            connectSources: () => tunnelOrigin ? [tunnelOrigin.replace(/^http/, 'ws')] : [],
+        }));
+        // Cross-origin callers only get CORS headers (with cookies) if their origin is allowed...
+        app.use(cors((req, callback) => {
+            callback(null, { origin: isAllowedOrigin(req.headers.origin, req.headers.host), credentials: true });
+        }));
+        // ...and can't make changes from anywhere else, even with requests that skip preflight
+        app.use((req, res, next) => {
+            if (['GET', 'HEAD', 'OPTIONS'].includes(req.method) || isAllowedOrigin(req.headers.origin, req.headers.host)) {
+                next();
+                return;
+            }
+            audit('origin_rejected', { ip: getClientIP(req), origin: req.headers.origin, path: req.path });
+            res.status(403).json({ error: 'Origin not allowed' });
+        });
         app.use(cookieParser());
         app.use(express.json());
 
+        // Give every browser a long-lived id, so it only needs approving once
+        if (approveDevices) {
+            app.use((req, res, next) => {
+                if (!req.cookies.device) {
+                    req.cookies.device = crypto.randomBytes(16).toString('base64url');
+                    res.cookie('device', req.cookies.device, { ...authCookieOptions(req), maxAge: DEVICE_COOKIE_MAX_AGE });
+                }
+                next();
+            });
+        }
+
         // Health check (no auth required)
         app.get('/api/health', (req, res) => {
             res.json({ status: 'ok', timestamp: Date.now() });
@@ -480,140 +1681,352 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
 
         // Login page
         app.get('/login', (req, res) => {
-            if (serverPIN && !isAuthenticated(req)) {
-                res.send(generateLoginPage());
+            if (isAuthRequired() && !isAuthenticated(req)) {
+                res.send(generateLoginPage(res.locals.cspNonce));
             } else {
                 res.redirect('/');
             }
         });
 
         // Login API
-        app.post('/api/login', (req, res) => {
-            const { pin } = req.body;
+        app.post('/api/login', async (req, res) => {
+            const { pin = '', code, username, password } = req.body;
             const clientIP = getClientIP(req);
 
-            // Check if IP is blocked
-            if (isIPBlocked(clientIP)) {
-                res.status(429).json({ error: 'IP blocked due to too many failed attempts' });
+            if (!allowLoginAttempt(clientIP, res)) {
+                return;
+            }
+
+            // Named users (gogogo user add); owners also need the TOTP code if there is one
+            if (username !== undefined) {
+                const user = await verifyUser(username, password);
+                if (!user || (user.role === 'owner' && totpSecret && !verifyTOTP(totpSecret, code))) {
+                    rejectLogin(clientIP, res, totpSecret ? 'Invalid username, password or code' : 'Invalid username or password');
+                    return;
+                }
+
+                const { token } = createAuthSession(user.role, sessionTTL, clientIP, req.get('user-agent') || '', user.name);
+                res.cookie('auth', token, { ...authCookieOptions(req), maxAge: sessionTTL });
+                loginLimiter.reset(clientIP);
+                console.log(`  [WebServer] ${user.name} logged in from ${clientIP}`);
+                audit('login', { ip: clientIP, role: user.role, user: user.name, method: 'password' });
+                res.json({ success: true, role: user.role, user: user.name });
                 return;
             }
 
             // Validate PIN
-            if (!pin || typeof pin !== 'string' || pin.length !== 6) {
+            if (typeof pin !== 'string' || (serverPIN && pin.length !== 6)) {
                 res.status(400).json({ error: 'PIN must be exactly 6 digits' });
                 return;
             }
 
-            if (pin === serverPIN) {
-                // Success - set authentication cookie
-                res.cookie('auth', pin, {
-                    httpOnly: true,
-                    secure: false, // Set to true in production with HTTPS
-                    maxAge: 24 * 60 * 60 * 1000, // 24 hours
-                    sameSite: 'lax'
-                });
+            const role = roleForLogin(pin, code);
+            if (role) {
+                // Success - set a signed session token, never the PIN itself
+                const { token } = createAuthSession(role, sessionTTL, clientIP, req.get('user-agent') || '');
+                res.cookie('auth', token, { ...authCookieOptions(req), maxAge: sessionTTL });
 
                 // Clear failed attempts for this IP
-                failedAttempts.delete(clientIP);
+                loginLimiter.reset(clientIP);
+                audit('login', { ip: clientIP, role, method: role === 'owner' && totpSecret ? 'totp' : 'pin' });
 
-                res.json({ success: true });
+                res.json({ success: true, role });
             } else {
-                // Failed authentication
-                const attempts = (failedAttempts.get(clientIP) || 0) + 1;
-                failedAttempts.set(clientIP, attempts);
+                rejectLogin(clientIP, res, totpSecret ? 'Invalid PIN or code' : 'Invalid PIN');
+            }
+        });
 
-                if (attempts >= MAX_FAILED_ATTEMPTS) {
-                    // Block IP
-                    blockedIPs.add(clientIP);
+        // Logout API - revokes the session so the token stops working everywhere
+        app.post('/api/logout', (req, res) => {
+            const auth = getAuth(req);
+            if (auth && auth.session) {
+                revokeAuthSession(auth.session.id);
+                disconnectAuthSession(auth.session.id);
+                audit('logout', { ip: getClientIP(req) });
+            }
+            res.clearCookie('auth', authCookieOptions(req));
+            res.json({ success: true });
+        });
 
-                    // Unblock after duration
-                    setTimeout(() => {
-                        blockedIPs.delete(clientIP);
-                        failedAttempts.delete(clientIP);
-                    }, BLOCK_DURATION);
+        // Pairing API - the token from the startup QR code logs one device in as owner
+        app.post('/api/pair', (req, res) => {
+            const clientIP = getClientIP(req);
+            if (!allowLoginAttempt(clientIP, res)) {
+                return;
+            }
 
-                    res.status(429).json({
-                        error: `Too many failed attempts. IP blocked for ${BLOCK_DURATION / 60000} minute(s)`
-                    });
-                } else {
-                    res.status(401).json({
-                        error: `Invalid PIN. ${MAX_FAILED_ATTEMPTS - attempts} attempts remaining`
-                    });
-                }
+            if (!consumePairingToken(req.body && req.body.token)) {
+                rejectLogin(clientIP, res, 'This pairing link has expired or was already used');
+                return;
             }
+
+            const { token } = createAuthSession('owner', sessionTTL, clientIP, req.get('user-agent') || '');
+            res.cookie('auth', token, { ...authCookieOptions(req), maxAge: sessionTTL });
+            console.log(`  [WebServer] Device paired from ${clientIP}`);
+            audit('login', { ip: clientIP, role: 'owner', method: 'pairing' });
+            res.json({ success: true, role: 'owner' });
         });
 
-        // Logout API
-        app.post('/api/logout', (req, res) => {
-            res.clearCookie('auth');
-            res.json({ success: true });
+        // Invite API - an invite link logs the browser in with the invite's role until it expires
+        app.post('/api/invite', (req, res) => {
+            const clientIP = getClientIP(req);
+            if (!allowLoginAttempt(clientIP, res)) {
+                return;
+            }
+
+            const result = redeemInvite(req.body && req.body.token);
+            if ('error' in result) {
+                rejectLogin(clientIP, res, result.error);
+                return;
+            }
+
+            const { invite } = result;
+            const ttl = invite.expiresAt - Date.now();
+            const { token } = createAuthSession(invite.role, ttl, clientIP, req.get('user-agent') || '', undefined, invite.id);
+            res.cookie('auth', token, { ...authCookieOptions(req), maxAge: ttl });
+            console.log(`  [WebServer] Invite ${invite.id} used from ${clientIP} (${invite.role})`);
+            audit('login', { ip: clientIP, role: invite.role, method: 'invite', invite: invite.id });
+            res.json({ success: true, role: invite.role });
+        });
+
+        // Lets everyone through while no PIN, TOTP or user is set up, but a user added later
+        // has to take effect without a restart
+        app.use(requireAuth);
+
+        // Hands the browser a token to present on /ws, which then gets this login's role
+        app.get('/api/ws-token', (req, res) => {
+            const auth = getAuth(req);
+            if (!auth) {
+                res.status(401).json({ error: 'Not authenticated' });
+                return;
+            }
+            const device = deviceFromRequest(req, req.cookies.device);
+            res.json({ token: issueWsToken(auth.role, auth.session?.id, device), role: auth.role });
         });
 
-        // Apply authentication middleware if PIN is set
-        if (serverPIN) {
-            app.use(requireAuth);
+        // Until the host approves this browser, it only gets as far as the pending screen
+        if (approveDevices) {
+            app.use('/api', (req, res, next) => {
+                if (isDeviceApproved(req.cookies.device)) {
+                    next();
+                    return;
+                }
+                res.status(403).json({ error: 'This device has not been approved yet' });
+            });
         }
 
         app.get('/api/terminal-context', (req, res) => {
+            const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : MAIN_SESSION_ID;
+            const outputBuffer = outputBuffers.get(sessionId);
             res.json({
-                recentOutput: outputBuffer.slice(-50),
-                bufferLength: outputBuffer.length,
+                // Terminal output stays off plain HTTP with --e2e
+                recentOutput: outputBuffer && !e2eKey ? outputBuffer.recent(50) : [],
+                bufferLength: outputBuffer ? outputBuffer.size : 0,
                 debugAsr: debugAsrEnabled  // Include debug flag
             });
         });
 
-        // Proxy for ModelScope API to handle CORS
-        app.post('/api/modelscope/proxy', async (req, res) => {
+        // How far behind each client is
+        app.get('/api/status/clients', requireOwner, (req, res) => {
+            const clients = Array.from(connectedClients.entries()).map(([client, clientInfo]) => ({
+                id: clientInfo.id,
+                role: clientInfo.role,
+                binary: !!clientInfo.binary,
+                connectedAt: clientInfo.connectedAt,
+                bufferedBytes: client.bufferedAmount,
+                lagging: !!clientInfo.lagging,
+                droppedBytes: clientInfo.droppedBytes || 0,
+                resyncs: clientInfo.resyncs || 0,
+            }));
+            res.json({ outputPaused: isPTYOutputPaused(), clients });
+        });
+
+        // Admin API - the same controls as the host's Ctrl-G menu
+        app.get('/api/admin/clients', requireOwner, (req, res) => {
+            res.json({ clients: listClients(), inputLocked: remoteInputLocked });
+        });
+
+        app.post<{ id: string }>('/api/admin/clients/:id/kick', requireOwner, (req, res) => {
+            const client = kickClient(req.params.id, 'api');
+            if (!client) {
+                res.status(404).json({ error: 'No single client matches that id' });
+                return;
+            }
+            res.json({ success: true, client });
+        });
+
+        app.post('/api/admin/pin', requireOwner, (req, res) => {
             try {
-                const { url, headers, body } = req.body;
+                const pin = rotatePIN('api', req.body && req.body.pin !== undefined ? String(req.body.pin) : undefined);
+                res.json({ success: true, pin });
+            } catch (error) {
+                res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+            }
+        });
 
-                console.log('[ModelScope Proxy] Request to:', url);
-                console.log('[ModelScope Proxy] Headers:', { ...headers, Authorization: headers.Authorization ? 'Bearer ***' : 'Not set' });
+        app.post('/api/admin/logout-all', requireOwner, (req, res) => {
+            res.json({ success: true, disconnected: invalidateSessions('api') });
+        });
 
-                // Make request to ModelScope API
-                const axios = (await import('axios')).default;
-                const response = await axios({
-                    method: 'POST',
-                    url: url,
-                    headers: headers,
-                    data: body
-                });
+        app.post('/api/admin/input-lock', requireOwner, (req, res) => {
+            if (!req.body || typeof req.body.locked !== 'boolean') {
+                res.status(400).json({ error: 'locked must be true or false' });
+                return;
+            }
+            setRemoteInputLocked(req.body.locked, 'api');
+            res.json({ success: true, locked: remoteInputLocked });
+        });
 
-                res.json(response.data);
-            } catch (error: any) {
-                console.error('[ModelScope Proxy] Error:', error.message);
-                if (error.response) {
-                    console.error('[ModelScope Proxy] Response status:', error.response.status);
-                    console.error('[ModelScope Proxy] Response data:', error.response.data);
-                }
-                res.status(error.response?.status || 500).json({
-                    error: error.response?.data?.message || error.message,
-                    status: error.response?.status,
-                    details: error.response?.data
-                });
+        app.get('/api/admin/invites', requireOwner, (req, res) => {
+            res.json({ invites: listInviteSummaries() });
+        });
+
+        app.post('/api/admin/invites', requireOwner, (req, res) => {
+            const { role, ttl, uses } = req.body || {};
+            try {
+                // Point at the tunnel even when this browser reached us some other way
+                const { url, invite } = createInviteURL(tunnelOrigin || `${req.protocol}://${req.get('host')}`, {
+                    role: parseInviteRole(String(role || 'viewer')),
+                    ttl: ttl === undefined ? DEFAULT_INVITE_TTL : parseDuration(String(ttl)),
+                    maxUses: uses === undefined || uses === null || uses === '' ? undefined : Number(uses),
+                    withoutKey: true,
+                }, getAuth(req)?.session?.user || 'api');
+                res.json({ success: true, url, invite });
+            } catch (error) {
+                res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
             }
         });
 
-        app.get('/api/modelscope/proxy', async (req, res) => {
+        app.delete<{ id: string }>('/api/admin/invites/:id', requireOwner, (req, res) => {
+            const invite = revokeInviteLink(req.params.id, 'api');
+            if (!invite) {
+                res.status(404).json({ error: 'No single invite matches that id' });
+                return;
+            }
+            res.json({ success: true, invite });
+        });
+
+        // Page back through a session's scrollback, newest first
+        app.get('/api/history', (req, res) => {
+            if (e2eKey) {
+                res.status(403).json({ error: 'Terminal output is only sent over the encrypted WebSocket with --e2e' });
+                return;
+            }
+            const page = readHistoryPage(req.query.sessionId, req.query.before, req.query.limit);
+            res.status(page.status).json(page.body);
+        });
+
+        // PTY session management
+        app.get('/api/sessions', (req, res) => {
+            res.json({ sessions: listPTYSessions() });
+        });
+
+        app.post('/api/sessions', requireOperator, requireInputUnlocked, (req, res) => {
+            const { name, command } = req.body || {};
+
+            if (name !== undefined && (typeof name !== 'string' || name.length > MAX_SESSION_NAME_LENGTH)) {
+                res.status(400).json({ error: `Name must be a string of at most ${MAX_SESSION_NAME_LENGTH} characters` });
+                return;
+            }
+            if (command !== undefined && typeof command !== 'string') {
+                res.status(400).json({ error: 'Command must be a string' });
+                return;
+            }
+            // A command started here never passes through --guard, so operators only get the default shell
+            if (command && command.trim() && getRole(req) !== 'owner') {
+                res.status(403).json({ error: 'Only owners can start a custom command' });
+                return;
+            }
+
+            // Start new sessions at the size every other session already has
+            const { cols, rows } = calculateSize();
+            const parts = command ? command.trim().split(/\s+/).filter(Boolean) : [];
+
             try {
-                const { url, headers } = req.query;
-
-                // Make request to ModelScope API
-                const axios = (await import('axios')).default;
-                const response = await axios({
-                    method: 'GET',
-                    url: url as string,
-                    headers: JSON.parse(headers as string || '{}')
+                const session = createPTYSession({
+                    name: name || undefined,
+                    command: parts[0],
+                    args: parts.slice(1),
+                    cols,
+                    rows,
                 });
+                broadcastSessions();
+                auditRequest(req, 'session_created', { session: session.id, name: session.name, command: session.command });
+                res.status(201).json({ session });
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error('  [WebServer] Failed to create session:', message);
+                res.status(500).json({ error: `Failed to start session: ${message}` });
+            }
+        });
 
-                res.json(response.data);
-            } catch (error: any) {
-                console.error('[ModelScope Proxy] Error:', error.message);
-                res.status(error.response?.status || 500).json({
-                    error: error.message,
-                    status: error.response?.status
-                });
+        app.patch<{ id: string }>('/api/sessions/:id', requireOperator, (req, res) => {
+            const { name } = req.body || {};
+
+            if (!name || typeof name !== 'string' || name.length > MAX_SESSION_NAME_LENGTH) {
+                res.status(400).json({ error: `Name must be a string of 1-${MAX_SESSION_NAME_LENGTH} characters` });
+                return;
+            }
+
+            if (!renamePTYSession(req.params.id, name)) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+
+            broadcastSessions();
+            auditRequest(req, 'session_renamed', { session: req.params.id, name });
+            res.json({ session: getPTYSession(req.params.id) });
+        });
+
+        app.delete<{ id: string }>('/api/sessions/:id', requireOperator, requireInputUnlocked, (req, res) => {
+            if (req.params.id === MAIN_SESSION_ID) {
+                res.status(400).json({ error: 'The main session ends when its command exits' });
+                return;
+            }
+
+            if (!closePTYSession(req.params.id)) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+
+            auditRequest(req, 'session_closed', { session: req.params.id });
+            // The exit handler broadcasts the updated session list
+            res.json({ success: true });
+        });
+
+        // Session recordings
+        app.get('/api/recordings', requireOwner, (req, res) => {
+            res.json({ recordings: listRecordings() });
+        });
+
+        app.get<{ name: string }>('/api/recordings/:name', requireOwner, (req, res) => {
+            if (e2eKey) {
+                res.status(403).json({ error: 'Recordings can\'t be downloaded through the tunnel with --e2e' });
+                return;
+            }
+            const recordingPath = getRecordingPath(req.params.name);
+            if (!recordingPath || !fs.existsSync(recordingPath)) {
+                res.status(404).json({ error: 'Recording not found' });
+                return;
+            }
+            res.download(recordingPath, req.params.name);
+        });
+
+        // Proxy for ModelScope API to handle CORS. Only allowlisted hosts are reachable, see proxy-guard.ts.
+        app.post('/api/modelscope/proxy', requireOperator, async (req, res) => {
+            const { url, headers, body } = req.body;
+            await forwardProxyRequest(res, 'POST', url, headers, body);
+        });
+
+        app.get('/api/modelscope/proxy', requireOperator, async (req, res) => {
+            let headers: unknown;
+            try {
+                headers = JSON.parse(typeof req.query.headers === 'string' ? req.query.headers : '{}');
+            } catch {
+                res.status(400).json({ error: 'Invalid headers' });
+                return;
             }
+            await forwardProxyRequest(res, 'GET', req.query.url, headers);
         });
 
         // Serve static files from public directory
@@ -971,7 +2384,7 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
         </div>
     </div>
 
-    <script>
+    <script nonce="${res.locals.cspNonce}">
         const term = new Terminal({
             cursorBlink: true,
             fontSize: 13,
@@ -1077,8 +2490,17 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
                 console.log('WebSocket connected');
                 updateStatus('connected');
                 reconnectAttempts = 0;
-                fitAddon.fit();
-                ws.send(JSON.stringify({ type: 'resize', cols: term.cols, rows: term.rows }));
+                const socket = ws;
+                // Tunneled connections authenticate with a token, then report their size
+                fetch('/api/ws-token')
+                    .then((response) => (response.ok ? response.json() : null))
+                    .then((body) => {
+                        if (socket.readyState !== 1) return;
+                        if (body) socket.send(JSON.stringify({ type: 'auth', token: body.token }));
+                        fitAddon.fit();
+                        socket.send(JSON.stringify({ type: 'resize', cols: term.cols, rows: term.rows }));
+                    })
+                    .catch(() => {});
             };
 
             ws.onclose = () => {
@@ -1104,6 +2526,8 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
 
             ws.onmessage = (e) => {
                 const msg = JSON.parse(e.data);
+                // This minimal client only shows the main session
+                if (msg.sessionId && msg.sessionId !== 'main') return;
                 if (msg.type === 'output') term.write(msg.data);
                 if (msg.type === 'history') {
                     // Clear terminal before writing history to avoid duplication
@@ -1682,34 +3106,261 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
 
         httpServer = createServer(app);
 
-        // WebSocket server - handle authentication in connection event
+        // WebSocket server - upgrades are authenticated before they reach it
         wss = new WebSocketServer({
-            server: httpServer,
-            path: '/ws'
+            noServer: true,
+            // Terminal output compresses well; tiny frames aren't worth the CPU
+            perMessageDeflate: { threshold: 1024 },
+            handleProtocols: (protocols) => {
+                if (e2eKey && protocols.has(E2E_PROTOCOL)) return E2E_PROTOCOL;
+                return protocols.has(WS_PROTOCOL) ? WS_PROTOCOL : false;
+            },
+            WebSocket: E2EWebSocket,
+        });
+
+        httpServer.on('upgrade', (req, socket, head) => {
+            if ((req.url || '').split('?')[0] !== '/ws') {
+                socket.destroy();
+                return;
+            }
+
+            const result = authorizeUpgrade(req);
+            if (result.status !== 101) {
+                console.log(`  [WebServer] Rejected WebSocket from ${getClientIP(req)} (${result.status})`);
+                audit('connect_rejected', { ip: getClientIP(req), status: result.status });
+                rejectUpgrade(socket, result.status);
+                return;
+            }
+            wss!.handleUpgrade(req, socket, head, (ws) => {
+                wss!.emit('connection', ws, req, result.auth);
+            });
         });
 
-        wss.on('connection', (ws) => {
+        wss.on('connection', (ws, req, auth?: WsAuth | null) => {
 
             const clientId = generateClientId();
             // Client connected silently
 
             // Initialize client with default size and ASR state
-            const clientInfo: any = { cols: 80, rows: 24, id: clientId };
-            connectedClients.set(ws, clientInfo);
+            const clientInfo: ClientInfo = {
+                cols: 80, rows: 24, id: clientId, role: auth ? auth.role : 'viewer', authSessionId: auth?.authSessionId,
+                user: userForAuthSession(auth?.authSessionId), ip: getClientIP(req), connectedAt: Date.now(), lastActiveAt: Date.now(),
+                syncing: true, queued: [],
+            };
 
-            // Send buffered history
-            if (outputBuffer.length > 0) {
-                ws.send(JSON.stringify({ type: 'history', data: outputBuffer }));
+            const admit = () => {
+                // Output already in the screens must not reach this client again after its snapshot
+                flushOutput();
+                connectedClients.set(ws, clientInfo);
+                audit('connect', { client: clientId, ip: clientInfo.ip, role: clientInfo.role, user: clientInfo.user });
+                ws.send(JSON.stringify({ type: 'role', role: clientInfo.role, user: clientInfo.user }));
+                ws.send(JSON.stringify({ type: 'size_policy', policy: formatSizePolicy(sizePolicy) }));
+                ws.send(JSON.stringify({ type: 'input_lock', locked: remoteInputLocked }));
+
+                // Send the session list and a snapshot of each screen
+                syncClient(ws, clientInfo).catch((error) => {
+                    console.error('  [WebServer] Failed to sync client:', error);
+                });
+            };
+
+            // With --approve-devices, unknown browsers wait on a pending screen for the host's answer
+            let device = auth?.device;
+            let withdrawApproval: (() => void) | null = null;
+            const admitIfApproved = () => {
+                if (!approveDevices || isDeviceApproved(device?.id)) {
+                    admit();
+                    return;
+                }
+
+                const browser = describeUserAgent(device!.userAgent);
+                ws.send(JSON.stringify({ type: 'device_pending' }));
+                withdrawApproval = requestDeviceApproval(device!.id, `${browser} from ${device!.ip}`, browser, (approved) => {
+                    withdrawApproval = null;
+                    if (ws.readyState !== WebSocket.OPEN) {
+                        return;
+                    }
+                    if (approved) {
+                        admit();
+                    } else {
+                        ws.close(4003, 'Device not approved');
+                    }
+                });
+            };
+
+            // Tunneled connections see nothing until they authenticate, which also tells us their device
+            let authTimer: NodeJS.Timeout | null = null;
+            const start = () => {
+                if (auth && (device || !approveDevices)) {
+                    admitIfApproved();
+                } else {
+                    authTimer = setTimeout(() => ws.close(4001, 'Authentication required'), WS_AUTH_TIMEOUT);
+                }
+            };
+
+            // With --e2e nothing happens until the browser proves it has the key
+            let e2eTimer: NodeJS.Timeout | null = null;
+            if (e2eKey) {
+                if (ws.protocol !== E2E_PROTOCOL) {
+                    ws.close(E2E_CLOSE_CODE, 'End-to-end encryption key required');
+                    return;
+                }
+                ws.startE2E(new E2EChannel(e2eKey));
+                e2eTimer = setTimeout(() => ws.close(E2E_CLOSE_CODE, 'End-to-end handshake timed out'), WS_AUTH_TIMEOUT);
+            } else {
+                start();
             }
 
-            ws.on('message', async (data) => {
+            ws.on('message', async (data: Buffer) => {
+                let text = data.toString();
+                if (ws.e2e) {
+                    if (ws.readyState !== WebSocket.OPEN) {
+                        return;
+                    }
+                    try {
+                        if (!ws.e2e.ready) {
+                            const hello = JSON.parse(text);
+                            if (hello.type !== 'e2e') {
+                                throw new Error('Expected the E2E handshake');
+                            }
+                            ws.completeE2E(hello.nonce);
+                            return;
+                        }
+                        const plain = ws.e2e.open(data);
+                        // The first frame that decrypts proves the browser has the key
+                        if (e2eTimer) {
+                            clearTimeout(e2eTimer);
+                            e2eTimer = null;
+                            start();
+                        }
+                        if (typeof plain !== 'string') {
+                            return;
+                        }
+                        text = plain;
+                    } catch (error) {
+                        console.log(`  [WebServer] E2E failure from ${clientInfo.ip}: ${error instanceof Error ? error.message : error}`);
+                        ws.close(E2E_CLOSE_CODE, 'End-to-end decryption failed');
+                        return;
+                    }
+                }
+
                 try {
-                    const msg = JSON.parse(data.toString());
+                    const msg = JSON.parse(text);
+
+                    if (msg.type === 'hello') {
+                        clientInfo.binary = msg.binary === true;
+                        return;
+                    }
+
+                    if (msg.type === 'auth') {
+                        const tokenAuth = consumeWsToken(msg.token);
+                        if (tokenAuth) {
+                            clientInfo.role = tokenAuth.role;
+                            clientInfo.authSessionId = tokenAuth.authSessionId;
+                            clientInfo.user = userForAuthSession(tokenAuth.authSessionId);
+                        }
+
+                        // Logged in again after --idle-lock: pick up where the screens are now
+                        if (clientInfo.locked) {
+                            if (!tokenAuth) {
+                                return;
+                            }
+                            clientInfo.locked = false;
+                            clientInfo.lastActiveAt = Date.now();
+                            console.log(`  [WebServer] Unlocked ${describeClient(clientInfo)}`);
+                            audit('idle_unlocked', { client: clientId, ip: clientInfo.ip, user: clientInfo.user });
+                            ws.send(JSON.stringify({ type: 'role', role: clientInfo.role, user: clientInfo.user }));
+                            ws.send(JSON.stringify({ type: 'input_lock', locked: remoteInputLocked }));
+                            clientInfo.syncing = true;
+                            clientInfo.queued = [];
+                            syncClient(ws, clientInfo).catch((error) => {
+                                console.error('  [WebServer] Failed to sync client:', error);
+                            });
+                            applySizePolicy();
+                            return;
+                        }
+
+                        if (!connectedClients.has(ws)) {
+                            if (withdrawApproval) {
+                                // Already waiting for the host
+                                return;
+                            }
+                            if (!tokenAuth || (approveDevices && !tokenAuth.device)) {
+                                ws.close(4001, 'Authentication failed');
+                                return;
+                            }
+                            if (authTimer) clearTimeout(authTimer);
+                            device = device || tokenAuth.device;
+                            admitIfApproved();
+                        } else {
+                            ws.send(JSON.stringify({ type: 'role', role: clientInfo.role, user: clientInfo.user }));
+                        }
+                        applySizePolicy();
+                        return;
+                    }
+
+                    if (!connectedClients.has(ws) || clientInfo.locked) {
+                        return;
+                    }
+
+                    // Viewers only watch
+                    if (clientInfo.role === 'viewer' && CONTROL_MESSAGES.has(msg.type)) {
+                        return;
+                    }
 
-                    if (msg.type === 'input' && msg.data) {
+                    if (msg.type === 'input' && typeof msg.data === 'string' && msg.data && !remoteInputLocked) {
+                        // Only typing keeps --idle-lock away; resizes and paging happen on their own
+                        clientInfo.lastActiveAt = Date.now();
                         // Debug logging commented out for production
                         // console.log('  [WebServer] Input received:', JSON.stringify(msg.data), 'charCodes:', [...msg.data].map(c => c.charCodeAt(0)));
-                        writeToPTY(msg.data);
+                        const sessionId = typeof msg.sessionId === 'string' ? msg.sessionId : MAIN_SESSION_ID;
+                        auditInput(clientId, clientInfo.ip, clientInfo.user, sessionId, msg.data);
+                        if (isInputGuardEnabled()) {
+                            guardInput({ id: clientId, ip: clientInfo.ip, user: clientInfo.user }, sessionId, msg.data, {
+                                write: (data) => writeToPTY(data, sessionId),
+                                confirm: (request) => ws.send(JSON.stringify({
+                                    type: 'guard_pending', id: request.id, sessionId, line: request.line,
+                                })),
+                                resolved: (request, approved) => {
+                                    if (ws.readyState === WebSocket.OPEN) {
+                                        ws.send(JSON.stringify({ type: 'guard_resolved', id: request.id, approved }));
+                                    }
+                                },
+                            });
+                        } else {
+                            writeToPTY(msg.data, sessionId);
+                        }
+
+                        clientInfo.lastInputAt = Date.now();
+                        if (sizePolicy.mode === 'latest-active') {
+                            applySizePolicy();
+                        }
+                    }
+
+                    // Scrollback paging for --e2e, where /api/history is off
+                    if (msg.type === 'history_page') {
+                        ws.send(JSON.stringify({ type: 'history_page', ...readHistoryPage(msg.sessionId, msg.before, msg.limit).body }));
+                    }
+
+                    // The browser's own confirmation of a line --guard held back
+                    if (msg.type === 'guard_answer' && typeof msg.id === 'string') {
+                        answerGuard(msg.id, msg.approved === true, 'web', clientId);
+                    }
+
+                    if (msg.type === 'restart' && !mainProcessState.running && !remoteInputLocked) {
+                        audit('restart', { client: clientId, ip: clientInfo.ip, user: clientInfo.user });
+                        restartCallbacks.forEach((callback) => callback());
+                    }
+
+                    if (msg.type === 'size_policy' && typeof msg.policy === 'string') {
+                        try {
+                            setSizePolicy(parseSizePolicy(msg.policy));
+                        } catch (error) {
+                            ws.send(JSON.stringify({
+                                type: 'size_policy',
+                                policy: formatSizePolicy(sizePolicy),
+                                error: error instanceof Error ? error.message : String(error),
+                            }));
+                        }
                     }
 
                     // Handle ASR messages - Connect to ASR Gateway instead of DashScope directly
@@ -1722,12 +3373,13 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
                         const gatewayUrl = 'wss://voice.futuretech.social';
                         const WebSocketClient = require('ws');
 
-                        clientInfo.asrWs = new WebSocketClient(gatewayUrl);
+                        const asrWs: WebSocket = new WebSocketClient(gatewayUrl);
+                        clientInfo.asrWs = asrWs;
                         clientInfo.sessionReady = false;
                         clientInfo.audioChunkCount = 0;
                         clientInfo.terminalContext = msg.context || '';
 
-                        clientInfo.asrWs.on('open', () => {
+                        asrWs.on('open', () => {
                             asrLog('[ASR] Connected to ASR Gateway');
 
                             // Send start_asr message to gateway
@@ -1738,12 +3390,12 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
                                     model: msg.model || 'qwen3-asr-flash-realtime'
                                 }
                             };
-                            clientInfo.asrWs.send(JSON.stringify(startMessage));
+                            asrWs.send(JSON.stringify(startMessage));
                             asrLog('[ASR] Sent start_asr to Gateway');
 
                             // Send context if available
                             if (clientInfo.terminalContext) {
-                                clientInfo.asrWs.send(JSON.stringify({
+                                asrWs.send(JSON.stringify({
                                     type: 'context_update',
                                     context: clientInfo.terminalContext
                                 }));
@@ -1751,7 +3403,7 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
                             }
                         });
 
-                        clientInfo.asrWs.on('message', (gatewayData: any) => {
+                        asrWs.on('message', (gatewayData: any) => {
                             // Forward Gateway responses to client
                             const response = JSON.parse(gatewayData.toString());
                             asrLog('[ASR] Received from Gateway:', response.type);
@@ -1837,7 +3489,7 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
                             }
                         });
 
-                        clientInfo.asrWs.on('error', (error: any) => {
+                        asrWs.on('error', (error: any) => {
                             asrLog('[ASR] Gateway error:', error);
                             ws.send(JSON.stringify({
                                 type: 'asr_response',
@@ -1845,7 +3497,7 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
                             }));
                         });
 
-                        clientInfo.asrWs.on('close', (code: number, reason: Buffer) => {
+                        asrWs.on('close', (code: number, reason: Buffer) => {
                             const reasonText = reason ? reason.toString() : 'Unknown';
                             asrLog('[ASR] Gateway connection closed. Code:', code, 'Reason:', reasonText);
                             clientInfo.asrWs = null;
@@ -1956,15 +3608,21 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
                         }
                     }
 
-                    if (msg.type === 'resize' && msg.cols && msg.rows) {
-                        // Update this client's dimensions
+                    if (msg.type === 'resize') {
+                        // Update this client's dimensions, for one terminal if it says which
+                        const size = clampSize(msg.cols, msg.rows);
                         const clientInfo = connectedClients.get(ws);
-                        if (clientInfo) {
-                            clientInfo.cols = msg.cols;
-                            clientInfo.rows = msg.rows;
-                            // Client resized silently
+                        if (size && clientInfo) {
+                            const sessionId = typeof msg.sessionId === 'string' && getPTYSession(msg.sessionId) ? msg.sessionId : undefined;
+                            if (sessionId) {
+                                clientInfo.sessionSizes = clientInfo.sessionSizes || new Map();
+                                clientInfo.sessionSizes.set(sessionId, size);
+                            }
+                            clientInfo.cols = size.cols;
+                            clientInfo.rows = size.rows;
+                            audit('resize', { client: clientInfo.id, ip: clientInfo.ip, session: sessionId, cols: size.cols, rows: size.rows });
+                            applySizePolicy();
                         }
-                        applyMinSize();
                     }
                 } catch (e) {
                     console.error('  [WebServer] Invalid message:', e);
@@ -1972,6 +3630,9 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
             });
 
             ws.on('close', () => {
+                if (authTimer) clearTimeout(authTimer);
+                if (e2eTimer) clearTimeout(e2eTimer);
+                if (withdrawApproval) withdrawApproval();
                 const clientInfo = connectedClients.get(ws);
                 if (clientInfo) {
                     // Clean up ASR WebSocket if exists
@@ -1980,40 +3641,66 @@ export function startWebServer(port: number, pin?: string, options: WebServerOpt
                         clientInfo.asrWs = null;
                     }
 
-                    // Client disconnected silently
                     connectedClients.delete(ws);
+                    releaseGuardClient(clientInfo.id);
+                    audit('disconnect', { client: clientInfo.id, ip: clientInfo.ip, user: clientInfo.user });
 
                     // Recalculate minimum size after client disconnection
-                    applyMinSize();
+                    applySizePolicy();
                 }
             });
         });
 
         // Forward PTY output to all clients
-        onPTYData((data) => {
-            outputBuffer.push(data);
-            if (outputBuffer.length > MAX_BUFFER_SIZE) {
-                outputBuffer = outputBuffer.slice(-3000);
-            }
+        unsubscribers.push(onPTYData((data, sessionId) => {
+            const size = getPTYSession(sessionId) || getLocalSize();
+            appendOutput(sessionId, data);
+            writeScreen(sessionId, data, size.cols, size.rows);
+            queueOutput(sessionId, data);
+        }));
 
-            const msg = JSON.stringify({ type: 'output', data });
-            connectedClients.forEach((clientInfo, client) => {
-                if (client.readyState === WebSocket.OPEN) {
-                    client.send(msg);
-                }
-            });
-        });
+        // Keep the server-side screens and the clients the same size as their PTYs
+        unsubscribers.push(onPTYResize((cols, rows, sessionId) => {
+            resizeScreen(sessionId, cols, rows);
+            broadcast({ type: 'pty_size', sessionId, cols, rows });
+        }));
 
+        // Local terminal resized or (de)attached
+        unsubscribers.push(onLocalTerminalResize(applySizePolicy));
+        unsubscribers.push(onLocalTerminalInput(() => {
+            if (sizePolicy.mode === 'latest-active') {
+                applySizePolicy();
+            }
+        }));
 
         // Notify clients on PTY exit
-        onPTYExit((code) => {
-            const msg = JSON.stringify({ type: 'exit', code });
-            connectedClients.forEach((clientInfo, client) => {
-                if (client.readyState === WebSocket.OPEN) {
-                    client.send(msg);
-                }
-            });
-        });
+        unsubscribers.push(onPTYExit((code, sessionId) => {
+            broadcast({ type: 'exit', sessionId, code });
+
+            if (sessionId === MAIN_SESSION_ID) {
+                mainProcessState = { running: false, code };
+                broadcastProcessState();
+            } else {
+                outputBuffers.delete(sessionId);
+                disposeScreen(sessionId);
+                connectedClients.forEach((clientInfo) => clientInfo.sessionSizes?.delete(sessionId));
+                broadcastSessions();
+            }
+        }));
+
+        // The main command was started again
+        unsubscribers.push(onPTYSpawn((sessionId) => {
+            if (sessionId === MAIN_SESSION_ID && !mainProcessState.running) {
+                mainProcessState = { running: true };
+                broadcastProcessState();
+                broadcastSessions();
+                applySizePolicy();
+            }
+        }));
+
+        if (idleLockAfter) {
+            idleTimer = setInterval(checkIdleClients, Math.min(IDLE_CHECK_INTERVAL, idleLockAfter));
+        }
 
         httpServer.listen(port, '0.0.0.0', () => {
             // Add a small delay to ensure the server is fully ready
@@ -2041,7 +3728,29 @@ export function stopWebServer(): void {
         httpServer = null;
     }
 
+    if (outputFlushTimer) {
+        clearTimeout(outputFlushTimer);
+        outputFlushTimer = null;
+    }
+    pendingOutput.clear();
+    pendingOutputLength = 0;
+
+    if (backpressureTimer) {
+        clearInterval(backpressureTimer);
+        backpressureTimer = null;
+    }
+    setPTYOutputPaused(false);
+
+    if (idleTimer) {
+        clearInterval(idleTimer);
+        idleTimer = null;
+    }
+
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    unsubscribers = [];
+
     connectedClients.clear();
-    outputBuffer = [];
+    outputBuffers.clear();
+    disposeAllScreens();
     clientIdCounter = 0;
 }
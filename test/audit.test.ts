@@ -0,0 +1,89 @@
+import './helpers/home';
+import { test, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { AUDIT_FILE, ROTATED_AUDIT_FILE, startAudit, stopAudit, isAuditEnabled, audit, auditInput, readAudit } from '../src/audit';
+
+afterEach(() => {
+    stopAudit();
+    fs.rmSync(AUDIT_FILE, { force: true });
+    fs.rmSync(ROTATED_AUDIT_FILE, { force: true });
+});
+
+test('writes nothing until started', async () => {
+    audit('login', { client: 'abc' });
+    assert.equal(isAuditEnabled(), false);
+    assert.equal(fs.existsSync(AUDIT_FILE), false);
+    assert.deepEqual(await readAudit(), []);
+});
+
+test('appends one JSON line per event', () => {
+    startAudit();
+    audit('login', { client: 'abc123', ip: '1.2.3.4', role: 'owner' });
+    audit('disconnect', { client: 'abc123' });
+
+    const lines = fs.readFileSync(AUDIT_FILE, 'utf8').split('\n');
+    assert.equal(lines.length, 3);
+    assert.equal(lines[2], '');
+
+    const entry = JSON.parse(lines[0]);
+    assert.equal(entry.event, 'login');
+    assert.equal(entry.pid, process.pid);
+    assert.equal(entry.client, 'abc123');
+    assert.equal(entry.ip, '1.2.3.4');
+    assert.equal(entry.role, 'owner');
+    assert.ok(!Number.isNaN(Date.parse(entry.time)));
+    assert.equal((fs.statSync(AUDIT_FILE).mode & 0o777), 0o600);
+});
+
+test('records only the length of typed input, unless asked for the keystrokes', async () => {
+    startAudit();
+    auditInput('abc123', '1.2.3.4', undefined, 'main', 'héllo');
+    stopAudit();
+
+    startAudit({ rawInput: true });
+    auditInput('abc123', '1.2.3.4', 'alice', 'main', 'secret\r');
+
+    const [redacted, raw] = await readAudit({ event: 'input' });
+    assert.equal(redacted.data, undefined);
+    assert.equal(redacted.bytes, 6);
+    assert.equal(redacted.session, 'main');
+    assert.equal(raw.data, 'secret\r');
+    assert.equal(raw.user, 'alice');
+});
+
+test('moves a full log aside and keeps reading both', async () => {
+    startAudit({ maxBytes: 1024 });
+    for (let i = 0; i < 15; i++) {
+        audit('resize', { client: 'abc123', cols: i, rows: 24 });
+    }
+
+    assert.ok(fs.statSync(AUDIT_FILE).size < 1024);
+    assert.ok(fs.statSync(ROTATED_AUDIT_FILE).size >= 1024);
+    const entries = await readAudit({ event: 'resize' });
+    assert.deepEqual(entries.map((entry) => entry.cols), [...Array(15).keys()]);
+});
+
+test('reopens the log when another session rotated it', async () => {
+    startAudit();
+    audit('login', { client: 'abc123' });
+    fs.renameSync(AUDIT_FILE, ROTATED_AUDIT_FILE);
+    audit('disconnect', { client: 'abc123' });
+
+    assert.match(fs.readFileSync(AUDIT_FILE, 'utf8'), /"disconnect"/);
+    assert.deepEqual((await readAudit()).map((entry) => entry.event), ['login', 'disconnect']);
+});
+
+test('filters entries and skips lines cut short', async () => {
+    startAudit();
+    audit('login', { client: 'abc123' });
+    audit('login', { client: 'def456' });
+    audit('disconnect', { client: 'abc123' });
+    stopAudit();
+    fs.appendFileSync(AUDIT_FILE, '{"time":"2026-01-01T00:00:00.000Z","ev');
+
+    assert.equal((await readAudit()).length, 3);
+    assert.deepEqual((await readAudit({ client: 'abc' })).map(entry => entry.event), ['login', 'disconnect']);
+    assert.deepEqual((await readAudit({ event: 'login' })).map(entry => entry.client), ['abc123', 'def456']);
+    assert.equal((await readAudit({ since: Date.now() + 60 * 1000 })).length, 0);
+});
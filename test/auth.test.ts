@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+    createAuthSession, verifyAuthToken, revokeAuthSession, resetAuth, createPairingToken, consumePairingToken,
+    parseDuration, DEFAULT_SESSION_TTL,
+} from '../src/auth';
+
+test('parses durations with units', () => {
+    assert.equal(parseDuration('90'), 90 * 1000);
+    assert.equal(parseDuration('30m'), 30 * 60 * 1000);
+    assert.equal(parseDuration('1.5h'), 90 * 60 * 1000);
+    assert.equal(parseDuration('7D'), 7 * 24 * 60 * 60 * 1000);
+    assert.throws(() => parseDuration('0s'), /must be positive/);
+    assert.throws(() => parseDuration('soon'), /Invalid duration/);
+});
+
+test('a session token verifies until it is revoked', () => {
+    const { token, session } = createAuthSession('owner', DEFAULT_SESSION_TTL, '1.2.3.4', 'test');
+
+    assert.equal(verifyAuthToken(token), session);
+    assert.equal(revokeAuthSession(session.id), true);
+    assert.equal(verifyAuthToken(token), null);
+});
+
+test('rejects tampered, expired and malformed tokens', () => {
+    const { token } = createAuthSession('owner', DEFAULT_SESSION_TTL, '1.2.3.4', 'test');
+    const [id, expiresAt, signature] = token.split('.');
+
+    assert.equal(verifyAuthToken(`${id}.${Number(expiresAt) + 1000}.${signature}`), null);
+    assert.equal(verifyAuthToken(`${id}.${expiresAt}.${signature.slice(1)}`), null);
+    assert.equal(verifyAuthToken(`${id}.${expiresAt}`), null);
+    assert.equal(verifyAuthToken(undefined), null);
+
+    const expired = createAuthSession('owner', -1, '1.2.3.4', 'test');
+    assert.equal(verifyAuthToken(expired.token), null);
+});
+
+test('resetting forgets every session', () => {
+    const { token } = createAuthSession('viewer', DEFAULT_SESSION_TTL, '1.2.3.4', 'test');
+    resetAuth();
+    assert.equal(verifyAuthToken(token), null);
+});
+
+test('a pairing token works once, and only the newest one', () => {
+    const first = createPairingToken();
+    const second = createPairingToken();
+
+    assert.equal(consumePairingToken(first), false);
+    assert.equal(consumePairingToken(second), true);
+    assert.equal(consumePairingToken(second), false);
+
+    const expired = createPairingToken(-1);
+    assert.equal(consumePairingToken(expired), false);
+    assert.equal(consumePairingToken(undefined), false);
+});
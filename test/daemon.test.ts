@@ -0,0 +1,93 @@
+import { TEST_HOME } from './helpers/home';
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import {
+    SESSIONS_DIR, startControlServer, stopControlServer, listSessions, findSession, connectControl, requestControl,
+    killSession,
+} from '../src/daemon';
+
+const record = {
+    id: 'a1b2c3',
+    pid: process.pid,
+    name: 'test',
+    command: 'bash',
+    tunnelUrl: 'https://example.invalid',
+    detached: true,
+    startedAt: Date.now(),
+};
+let kills = 0;
+
+before(async () => {
+    await startControlServer(record, () => kills++);
+});
+
+after(() => {
+    stopControlServer();
+});
+
+test('keeps session records under the home directory', () => {
+    assert.ok(SESSIONS_DIR.startsWith(TEST_HOME));
+    assert.ok(fs.existsSync(path.join(SESSIONS_DIR, `${record.id}.json`)));
+});
+
+test('finds running sessions by id prefix', () => {
+    assert.deepEqual(listSessions().map((session) => session.id), [record.id]);
+    assert.equal(findSession().id, record.id);
+    assert.equal(findSession('a1b').id, record.id);
+    assert.throws(() => findSession('ff'), /No session matching "ff"/);
+});
+
+test('prunes records left behind by dead processes', () => {
+    const dead = spawnSync('true').pid;
+    const stale = path.join(SESSIONS_DIR, 'dead00.json');
+    fs.writeFileSync(stale, JSON.stringify({ ...record, id: 'dead00', pid: dead, socketPath: '/nonexistent' }));
+
+    assert.deepEqual(listSessions().map((session) => session.id), [record.id]);
+    assert.equal(fs.existsSync(stale), false);
+});
+
+test('answers control requests over the socket', async () => {
+    const session = findSession();
+
+    const info = await requestControl(session, { type: 'info' });
+    assert.ok(info.type === 'info');
+    assert.equal(info.session?.id, record.id);
+    assert.equal(info.session?.socketPath, session.socketPath);
+
+    // Not something requestControl can send, so write it by hand
+    const socket = await connectControl(session);
+    const reply = new Promise<string>((resolve) => socket.once('data', (chunk) => resolve(chunk.toString())));
+    socket.write('not json\n{"type":42}\n{"type":"reboot"}\n');
+    assert.deepEqual(JSON.parse(await reply), { type: 'error', message: 'Unknown command: reboot' });
+    socket.destroy();
+    // Only detached sessions take a terminal
+    assert.equal((await requestControl(session, { type: 'attach', cols: 80, rows: 24 })).type, 'error');
+});
+
+test('kill asks the session to shut itself down', async () => {
+    await killSession(findSession());
+    assert.equal(kills, 1);
+});
+
+test('a request fails when the session hangs up or never answers', async () => {
+    const socketPath = path.join(TEST_HOME, 'silent.sock');
+    const sockets: net.Socket[] = [];
+    let hangUp = true;
+    const server = net.createServer((socket) => {
+        sockets.push(socket);
+        if (hangUp) socket.end();
+    });
+    await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+    const silent = { ...record, id: 'silent', socketPath };
+
+    await assert.rejects(requestControl(silent, { type: 'info' }), /closed the connection without replying/);
+    hangUp = false;
+    await assert.rejects(requestControl(silent, { type: 'info' }, 100), /did not reply in time/);
+
+    sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => server.close(resolve));
+});
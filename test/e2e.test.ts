@@ -0,0 +1,157 @@
+import './helpers/home';
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import { E2EChannel, E2E_CLOSE_CODE, E2E_PROTOCOL, generateE2EKey } from '../src/e2e';
+import { startWebServer, stopWebServer } from '../src/web-server';
+import { startTunnel, stopTunnel } from '../src/vortex-tunnel';
+import { spawnPTY, killPTY } from '../src/pty';
+import { FakeGateway, startFakeGateway } from './helpers/gateway';
+
+const GATEWAY_PORT = 38922;
+const PORT = 38923;
+
+let gateway: FakeGateway;
+
+/**
+ * The browser's half of the channel, as in public/js/e2e.js
+ */
+class Client {
+    readonly nonce = crypto.randomBytes(16);
+    private sendKey: Buffer;
+    private receiveKey: Buffer;
+    private sendCounter = 0;
+    private receiveCounter = 0;
+
+    constructor(key: Buffer, serverNonce: Buffer) {
+        const salt = Buffer.concat([serverNonce, this.nonce]);
+        this.sendKey = Buffer.from(crypto.hkdfSync('sha256', key, salt, 'gogogo-e2e client', 32));
+        this.receiveKey = Buffer.from(crypto.hkdfSync('sha256', key, salt, 'gogogo-e2e server', 32));
+    }
+
+    private static iv(counter: number): Buffer {
+        const iv = Buffer.alloc(12);
+        iv.writeUIntBE(counter, 6, 6);
+        return iv;
+    }
+
+    seal(data: string | Buffer): Buffer {
+        const kind = typeof data === 'string' ? 0 : 1;
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.sendKey, Client.iv(this.sendCounter++));
+        const body = Buffer.concat([cipher.update(Buffer.from([kind])), cipher.update(data), cipher.final()]);
+        return Buffer.concat([body, cipher.getAuthTag()]);
+    }
+
+    open(frame: Buffer): string | Buffer {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', this.receiveKey, Client.iv(this.receiveCounter++));
+        decipher.setAuthTag(frame.subarray(frame.length - 16));
+        const plain = Buffer.concat([decipher.update(frame.subarray(0, frame.length - 16)), decipher.final()]);
+        return plain[0] === 0 ? plain.subarray(1).toString('utf-8') : plain.subarray(1);
+    }
+}
+
+function waitFor(check: () => boolean, timeout: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    return new Promise((resolve, reject) => {
+        const poll = () => {
+            if (check()) {
+                resolve();
+            } else if (Date.now() > deadline) {
+                reject(new Error('Timed out'));
+            } else {
+                setTimeout(poll, 10);
+            }
+        };
+        poll();
+    });
+}
+
+function connect(): { server: E2EChannel; client: Client } {
+    const key = generateE2EKey();
+    const server = new E2EChannel(key);
+    const client = new Client(key, server.serverNonce);
+    server.accept(client.nonce.toString('base64url'));
+    return { server, client };
+}
+
+before(async () => {
+    gateway = await startFakeGateway(GATEWAY_PORT);
+    spawnPTY({ command: 'cat' });
+    await startWebServer(PORT, '123456', { e2e: true });
+    await startTunnel(PORT, gateway.url);
+});
+
+after(async () => {
+    stopTunnel();
+    stopWebServer();
+    await gateway.close();
+    killPTY();
+    process.stdin.pause();
+});
+
+test('messages round-trip in both directions', () => {
+    const { server, client } = connect();
+    assert.equal(server.ready, true);
+
+    assert.equal(client.open(server.seal('{"type":"output"}')), '{"type":"output"}');
+    assert.deepEqual(client.open(server.seal(Buffer.from([1, 2, 3]))), Buffer.from([1, 2, 3]));
+    assert.equal(server.open(client.seal('{"type":"input","data":"ls\\r"}')), '{"type":"input","data":"ls\\r"}');
+    assert.deepEqual(server.open(client.seal(Buffer.from([4, 5]))), Buffer.from([4, 5]));
+});
+
+test('the same plaintext never encrypts the same way twice', () => {
+    const { server } = connect();
+    assert.notDeepEqual(server.seal('ping'), server.seal('ping'));
+});
+
+test('rejects tampered frames', () => {
+    const { server, client } = connect();
+    const frame = client.seal('secret');
+    frame[2] ^= 1;
+    assert.throws(() => server.open(frame));
+});
+
+test('rejects replayed and reordered frames', () => {
+    const replay = connect();
+    const frame = replay.client.seal('once');
+    assert.equal(replay.server.open(frame), 'once');
+    assert.throws(() => replay.server.open(frame));
+
+    const reorder = connect();
+    const first = reorder.client.seal('first');
+    const second = reorder.client.seal('second');
+    assert.throws(() => reorder.server.open(second));
+    assert.throws(() => reorder.server.open(first));
+});
+
+test('rejects a client holding another key', () => {
+    const server = new E2EChannel(generateE2EKey());
+    const client = new Client(generateE2EKey(), server.serverNonce);
+    server.accept(client.nonce.toString('base64url'));
+    assert.throws(() => server.open(client.seal('hello')));
+});
+
+test('refuses bad nonces and sealing before the handshake', () => {
+    const server = new E2EChannel(generateE2EKey());
+    assert.equal(server.ready, false);
+    assert.throws(() => server.seal('early'), /handshake not complete/);
+    assert.throws(() => server.accept('short'), /Invalid E2E nonce/);
+    assert.throws(() => server.accept(42), /Invalid E2E nonce/);
+});
+
+test('through the tunnel, a browser without the key is closed with the E2E close code', async () => {
+    const closed = (connId: string) => gateway.received.find((msg) => msg.type === 'websocket_close' && msg.conn_id === connId);
+
+    gateway.send({ type: 'websocket_connect', conn_id: 'no-key', headers: {} });
+    await waitFor(() => closed('no-key') !== undefined);
+    assert.deepEqual(closed('no-key'), {
+        type: 'websocket_close', conn_id: 'no-key', code: E2E_CLOSE_CODE, reason: 'End-to-end encryption key required',
+    });
+
+    // Offers E2E, then answers the handshake with a nonce no key could have produced
+    gateway.send({ type: 'websocket_connect', conn_id: 'bad-nonce', headers: { 'sec-websocket-protocol': E2E_PROTOCOL } });
+    await waitFor(() => gateway.received.some((msg) => msg.conn_id === 'bad-nonce' && msg.type === 'websocket_data'));
+    gateway.send({ type: 'websocket_message', conn_id: 'bad-nonce', data: JSON.stringify({ type: 'e2e', nonce: 'short' }) });
+    await waitFor(() => closed('bad-nonce') !== undefined);
+    assert.equal(closed('bad-nonce')!.code, E2E_CLOSE_CODE);
+});
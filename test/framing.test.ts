@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { FRAME_OUTPUT, encodeOutputFrame } from '../src/framing';
+
+test('lays out an output frame as type, id length, id, then data', () => {
+    const frame = encodeOutputFrame('main', 'hi\r\n');
+
+    assert.equal(frame[0], FRAME_OUTPUT);
+    assert.equal(frame[1], 4);
+    assert.equal(frame.subarray(2, 6).toString(), 'main');
+    assert.equal(frame.subarray(6).toString(), 'hi\r\n');
+});
+
+test('measures the session id and data in UTF-8 bytes', () => {
+    const frame = encodeOutputFrame('é', '✓');
+
+    assert.equal(frame[1], 2);
+    assert.equal(frame.length, 2 + 2 + 3);
+    assert.equal(frame.subarray(4).toString(), '✓');
+});
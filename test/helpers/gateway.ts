@@ -0,0 +1,59 @@
+import * as http from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+
+export const SESSION_ID = 'test-session';
+
+// Messages from the tunnel, as the gateway sees them
+export type TunnelMessage = { type: string; conn_id?: string; [field: string]: unknown };
+
+export interface FakeGateway {
+    url: string;
+    received: TunnelMessage[];
+    send(msg: Record<string, unknown>): void;
+    close(): Promise<void>;
+}
+
+/**
+ * Just enough of the Vortex gateway for startTunnel: the session API and the tunnel socket
+ */
+export function startFakeGateway(port: number): Promise<FakeGateway> {
+    const received: TunnelMessage[] = [];
+    let tunnel: WebSocket | null = null;
+
+    const server = http.createServer((req, res) => {
+        req.resume();
+        res.setHeader('Content-Type', 'application/json');
+        if (req.method === 'POST' && req.url === '/api/session') {
+            res.end(JSON.stringify({
+                session_id: SESSION_ID,
+                tunnel_url: `http://localhost:${port}/t/${SESSION_ID}`,
+                ws_url: `ws://localhost:${port}/tunnel/${SESSION_ID}`,
+                expires_in: 3600,
+            }));
+        } else if (req.method === 'POST' && req.url === '/api/tunnel/register') {
+            res.end('{}');
+        } else {
+            res.statusCode = 404;
+            res.end('{}');
+        }
+    });
+
+    const wss = new WebSocketServer({ server, path: `/tunnel/${SESSION_ID}` });
+    wss.on('connection', (ws) => {
+        tunnel = ws;
+        ws.on('message', (data) => received.push(JSON.parse(data.toString())));
+    });
+
+    return new Promise((resolve) => {
+        server.listen(port, () => resolve({
+            url: `http://localhost:${port}`,
+            received,
+            send: (msg) => tunnel!.send(JSON.stringify(msg)),
+            close: () => new Promise((done) => {
+                wss.clients.forEach((client) => client.terminate());
+                wss.close();
+                server.close(() => done());
+            }),
+        }));
+    });
+}
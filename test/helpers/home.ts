@@ -0,0 +1,14 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Import first in tests that touch ~/.codingin, so sessions, users and logs land in a
+ * throwaway home directory instead of the real one
+ */
+export const TEST_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'gogogo-test-'));
+process.env.HOME = TEST_HOME;
+
+process.on('exit', () => {
+    fs.rmSync(TEST_HOME, { recursive: true, force: true });
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import express from 'express';
+import { buildContentSecurityPolicy, parseAllowedOrigin, securityHeaders, CDN_ORIGIN } from '../src/http-security';
+
+const PORT = 38918;
+
+test('normalizes allowed origins and rejects anything with a path', () => {
+    assert.equal(parseAllowedOrigin(' https://App.Example.com/ '), 'https://app.example.com');
+    assert.equal(parseAllowedOrigin('http://localhost:3000'), 'http://localhost:3000');
+    assert.throws(() => parseAllowedOrigin('https://app.example.com/path'), /expected e\.g\./);
+    assert.throws(() => parseAllowedOrigin('ftp://app.example.com'), /expected e\.g\./);
+    assert.throws(() => parseAllowedOrigin('app.example.com'), /Invalid origin/);
+});
+
+test('builds a CSP that only allows nonce\'d inline scripts', () => {
+    const policy = buildContentSecurityPolicy('abc', ['wss://tunnel.example']);
+
+    assert.match(policy, new RegExp(`script-src 'self' ${CDN_ORIGIN} 'nonce-abc';`));
+    assert.match(policy, /connect-src 'self' wss:\/\/tunnel\.example;/);
+    assert.match(policy, /frame-ancestors 'none'/);
+    assert.doesNotMatch(policy, /script-src[^;]*'unsafe-inline'/);
+    assert.match(buildContentSecurityPolicy('abc', []), /connect-src 'self';/);
+});
+
+test('sets a fresh nonce per response, and HSTS only over HTTPS', async () => {
+    const app = express();
+    app.use(securityHeaders({
+        isSecure: (req) => req.headers['x-forwarded-proto'] === 'https',
+        connectSources: () => [],
+    }));
+    app.get('/', (_req, res) => {
+        res.send(res.locals.cspNonce);
+    });
+    const server = app.listen(PORT);
+
+    const get = (headers: http.OutgoingHttpHeaders = {}) => new Promise<{ headers: http.IncomingHttpHeaders; body: string }>(
+        (resolve, reject) => {
+            http.get({ port: PORT, path: '/', headers }, (res) => {
+                let body = '';
+                res.on('data', (chunk) => body += chunk);
+                res.on('end', () => resolve({ headers: res.headers, body }));
+            }).on('error', reject);
+        }
+    );
+
+    try {
+        const first = await get();
+        const second = await get({ 'X-Forwarded-Proto': 'https' });
+
+        assert.notEqual(first.body, second.body);
+        assert.ok(first.headers['content-security-policy']?.includes(`'nonce-${first.body}'`));
+        assert.equal(first.headers['x-frame-options'], 'DENY');
+        assert.equal(first.headers['x-content-type-options'], 'nosniff');
+        assert.equal(first.headers['referrer-policy'], 'no-referrer');
+        assert.equal(first.headers['strict-transport-security'], undefined);
+        assert.equal(second.headers['strict-transport-security'], 'max-age=31536000');
+    } finally {
+        server.close();
+    }
+});
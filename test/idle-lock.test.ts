@@ -0,0 +1,86 @@
+import './helpers/home';
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { startWebServer, stopWebServer } from '../src/web-server';
+import { spawnPTY, killPTY, onPTYInput } from '../src/pty';
+
+const PORT = 38919;
+const ORIGIN = `http://localhost:${PORT}`;
+const PIN = '123456';
+const IDLE_LOCK = 300;
+
+type ServerMessage = { type: string; [field: string]: unknown };
+
+const inputs: string[] = [];
+
+function waitFor(check: () => boolean, timeout: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    return new Promise((resolve, reject) => {
+        const poll = () => {
+            if (check()) {
+                resolve();
+            } else if (Date.now() > deadline) {
+                reject(new Error('Timed out'));
+            } else {
+                setTimeout(poll, 10);
+            }
+        };
+        poll();
+    });
+}
+
+async function login(): Promise<string> {
+    const response = await fetch(`${ORIGIN}/api/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pin: PIN }),
+    });
+    assert.equal(response.status, 200);
+    return response.headers.get('set-cookie')!.split(';')[0];
+}
+
+before(async () => {
+    onPTYInput((data) => inputs.push(data));
+    spawnPTY({ command: 'cat' });
+    await startWebServer(PORT, PIN, { idleLock: IDLE_LOCK });
+});
+
+after(() => {
+    stopWebServer();
+    killPTY();
+    process.stdin.pause();
+});
+
+test('an idle browser is locked until it logs in again', async () => {
+    const cookie = await login();
+    const ws = new WebSocket(`ws://localhost:${PORT}/ws`, { headers: { Cookie: cookie, Origin: ORIGIN } });
+    const messages: ServerMessage[] = [];
+    ws.on('message', (data, isBinary) => {
+        if (!isBinary) messages.push(JSON.parse(data.toString()));
+    });
+
+    await waitFor(() => messages.some((msg) => msg.type === 'locked'));
+    const locked = messages.find((msg) => msg.type === 'locked')!;
+    assert.equal(locked.reason, 'idle');
+    assert.deepEqual(locked.login, { pin: true, users: false, code: false });
+
+    // The old login was revoked along with the lock
+    const stale = await fetch(`${ORIGIN}/api/ws-token`, { headers: { Cookie: cookie }, redirect: 'manual' });
+    assert.equal(stale.headers.get('location'), '/login');
+
+    ws.send(JSON.stringify({ type: 'input', data: 'while locked\r' }));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.ok(!inputs.includes('while locked\r'));
+
+    const fresh = await fetch(`${ORIGIN}/api/ws-token`, { headers: { Cookie: await login() } });
+    const { token } = await fresh.json();
+    const roles = messages.filter((msg) => msg.type === 'role').length;
+    ws.send(JSON.stringify({ type: 'auth', token }));
+    await waitFor(() => messages.filter((msg) => msg.type === 'role').length > roles);
+
+    ws.send(JSON.stringify({ type: 'input', data: 'after unlocking\r' }));
+    await waitFor(() => inputs.includes('after unlocking\r'));
+    assert.ok(!inputs.includes('while locked\r'));
+    ws.close();
+});
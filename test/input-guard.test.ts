@@ -0,0 +1,100 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { spawnPTY, killPTY, promptLocalKey } from '../src/pty';
+import { requestDeviceApproval } from '../src/devices';
+import {
+    DEFAULT_GUARD_PATTERNS, GuardCallbacks, GuardRequest, configureInputGuard, guardInput, answerGuard,
+} from '../src/input-guard';
+
+const client = { id: 'client-1', ip: '10.0.0.2' };
+
+function recorder() {
+    const written: string[] = [];
+    const held: GuardRequest[] = [];
+    const resolved: boolean[] = [];
+    const callbacks: GuardCallbacks = {
+        write: (data) => written.push(data),
+        confirm: (request) => held.push(request),
+        resolved: (request, approved) => resolved.push(approved),
+    };
+    return { written, held, resolved, callbacks };
+}
+
+// Keys typed in the local terminal
+function press(key: string): void {
+    process.stdin.emit('data', Buffer.from(key));
+}
+
+before(() => {
+    spawnPTY({ command: 'cat' });
+});
+
+after(() => {
+    killPTY();
+    process.stdin.pause();
+});
+
+test('safe lines pass straight through', () => {
+    configureInputGuard(DEFAULT_GUARD_PATTERNS);
+    const { written, held, callbacks } = recorder();
+    guardInput(client, 'main', 'ls -la\r', callbacks);
+    assert.deepEqual(written, ['ls -la\r']);
+    assert.equal(held.length, 0);
+});
+
+test('a dangerous line waits for its Enter until approved', () => {
+    configureInputGuard(DEFAULT_GUARD_PATTERNS);
+    const { written, held, resolved, callbacks } = recorder();
+    guardInput(client, 'main', 'rm -rf build\rls\r', callbacks);
+    assert.deepEqual(written, ['rm -rf build']);
+    assert.equal(held[0].line, 'rm -rf build');
+
+    // Typed while held: kept until the line is decided
+    guardInput(client, 'main', 'pwd\r', callbacks);
+    assert.deepEqual(written, ['rm -rf build']);
+
+    assert.equal(answerGuard(held[0].id, true, 'web', 'someone-else'), false);
+    assert.equal(answerGuard(held[0].id, true, 'web', client.id), true);
+    assert.deepEqual(written, ['rm -rf build', '\r', 'ls\rpwd\r']);
+    assert.deepEqual(resolved, [true]);
+    assert.equal(answerGuard(held[0].id, true, 'web'), false);
+});
+
+test('a refused line is cleared instead of run', () => {
+    configureInputGuard(DEFAULT_GUARD_PATTERNS);
+    const { written, held, callbacks } = recorder();
+    guardInput(client, 'main', 'git push --force\r', callbacks);
+    answerGuard(held[0].id, false, 'web');
+    assert.deepEqual(written, ['git push --force', '\x15']);
+});
+
+test('answering in the browser withdraws the question in the local terminal', () => {
+    configureInputGuard(DEFAULT_GUARD_PATTERNS);
+    const { held, callbacks } = recorder();
+    guardInput(client, 'main', 'git reset --hard\r', callbacks);
+    answerGuard(held[0].id, true, 'web');
+
+    // Nothing left in front of the next prompt
+    let asked = false;
+    const cancel = promptLocalKey({ ask: () => { asked = true; }, answer: () => undefined })!;
+    assert.equal(asked, true);
+    cancel();
+});
+
+test('a guarded line behind a device approval is still asked at the host', async () => {
+    configureInputGuard(DEFAULT_GUARD_PATTERNS);
+    const approvals: boolean[] = [];
+    requestDeviceApproval('device-1', 'Safari/iOS from 10.0.0.3', 'Safari/iOS', (approved) => approvals.push(approved));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const { written, resolved, callbacks } = recorder();
+    guardInput(client, 'main', 'rm -rf /tmp/x\r', callbacks);
+
+    press('n');
+    assert.deepEqual(approvals, [false]);
+    assert.deepEqual(resolved, []);
+
+    press('y');
+    assert.deepEqual(resolved, [true]);
+    assert.deepEqual(written, ['rm -rf /tmp/x', '\r']);
+});
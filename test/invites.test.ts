@@ -0,0 +1,58 @@
+import { test, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+    createInvite, redeemInvite, revokeInvite, resetInvites, listInvites, parseInviteRole, MAX_INVITE_TTL,
+} from '../src/invites';
+
+const HOUR = 60 * 60 * 1000;
+
+beforeEach(() => {
+    resetInvites();
+});
+
+test('redeems an invite for the role it was made with', () => {
+    const { token, invite } = createInvite('viewer', HOUR, 'cli');
+
+    const result = redeemInvite(token);
+    assert.ok('invite' in result);
+    assert.equal(result.invite, invite);
+    assert.equal(result.invite.role, 'viewer');
+    assert.equal(invite.uses, 1);
+});
+
+test('rejects forged and unknown tokens', () => {
+    const { token, invite } = createInvite('operator', HOUR, 'cli');
+    const [, signature] = token.split('.');
+
+    assert.deepEqual(redeemInvite(`${invite.id}.${signature.slice(1)}`), { error: 'This invite link is not valid' });
+    assert.deepEqual(redeemInvite(`ffffffff.${signature}`), { error: 'This invite link is not valid' });
+    assert.deepEqual(redeemInvite(invite.id), { error: 'This invite link is not valid' });
+    assert.deepEqual(redeemInvite(undefined), { error: 'This invite link is not valid' });
+    assert.equal(invite.uses, 0);
+});
+
+test('stops working once used up or revoked', () => {
+    const limited = createInvite('viewer', HOUR, 'cli', 1);
+    assert.ok('invite' in redeemInvite(limited.token));
+    assert.deepEqual(redeemInvite(limited.token), { error: 'This invite link has been used up' });
+
+    const revoked = createInvite('viewer', HOUR, 'cli');
+    assert.equal(revokeInvite(revoked.invite.id.slice(0, 8)), revoked.invite);
+    assert.deepEqual(redeemInvite(revoked.token), { error: 'This invite link has expired or was revoked' });
+});
+
+test('resetting invalidates every invite', () => {
+    const { token } = createInvite('viewer', HOUR, 'cli');
+    resetInvites();
+    assert.deepEqual(redeemInvite(token), { error: 'This invite link is not valid' });
+    assert.deepEqual(listInvites(), []);
+});
+
+test('checks roles, lifetimes and use counts', () => {
+    assert.equal(parseInviteRole('operator'), 'operator');
+    assert.throws(() => parseInviteRole('owner'), /Invalid role/);
+    assert.throws(() => createInvite('viewer', MAX_INVITE_TTL + 1, 'cli'), /at most 7 days/);
+    assert.throws(() => createInvite('viewer', 0, 'cli'), /at most 7 days/);
+    assert.throws(() => createInvite('viewer', HOUR, 'cli', 0), /positive whole number/);
+    assert.throws(() => createInvite('viewer', HOUR, 'cli', 1.5), /positive whole number/);
+});
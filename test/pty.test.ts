@@ -0,0 +1,161 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+    spawnPTY, killPTY, createPTYSession, listPTYSessions, getPTYSession, renamePTYSession, closePTYSession,
+    writeToPTY, onPTYData, onPTYExit, setPTYOutputPaused, isPTYOutputPaused, promptLocalKey, MAIN_SESSION_ID,
+} from '../src/pty';
+
+const output: Map<string, string> = new Map();
+const exits: string[] = [];
+
+/**
+ * Resolve once `check` passes, polling as PTY output comes in
+ */
+function waitFor(check: () => boolean, timeout: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    return new Promise((resolve, reject) => {
+        const poll = () => {
+            if (check()) {
+                resolve();
+            } else if (Date.now() > deadline) {
+                reject(new Error('Timed out waiting for the PTY'));
+            } else {
+                setTimeout(poll, 10);
+            }
+        };
+        poll();
+    });
+}
+
+// Keys typed in the local terminal
+function press(key: string): void {
+    process.stdin.emit('data', Buffer.from(key));
+}
+
+before(() => {
+    onPTYData((data, sessionId) => output.set(sessionId, (output.get(sessionId) || '') + data));
+    onPTYExit((code, sessionId) => exits.push(sessionId));
+    spawnPTY({ command: 'cat' });
+});
+
+after(() => {
+    killPTY();
+    process.stdin.pause();
+});
+
+test('runs extra sessions next to the main one', () => {
+    const session = createPTYSession({ command: 'cat', name: 'logs' });
+
+    assert.match(session.id, /^term-\d+$/);
+    assert.equal(session.name, 'logs');
+    assert.equal(session.command, 'cat');
+    assert.equal(session.main, false);
+    assert.deepEqual(listPTYSessions().map((entry) => entry.id), [MAIN_SESSION_ID, session.id]);
+    assert.equal(getPTYSession(MAIN_SESSION_ID)?.main, true);
+
+    closePTYSession(session.id);
+});
+
+test('keeps input and output apart per session', async () => {
+    const session = createPTYSession({ command: 'cat' });
+    assert.equal(session.name, 'cat');
+
+    writeToPTY('only for the tab\r', session.id);
+    await waitFor(() => (output.get(session.id) || '').includes('only for the tab'));
+    assert.ok(!(output.get(MAIN_SESSION_ID) || '').includes('only for the tab'));
+
+    closePTYSession(session.id);
+});
+
+test('renames and closes sessions', async () => {
+    const session = createPTYSession({ command: 'cat' });
+
+    assert.equal(renamePTYSession(session.id, 'build'), true);
+    assert.equal(getPTYSession(session.id)?.name, 'build');
+
+    assert.equal(closePTYSession(session.id), true);
+    await waitFor(() => exits.includes(session.id));
+    assert.equal(getPTYSession(session.id), null);
+    assert.equal(closePTYSession(session.id), false);
+    assert.equal(renamePTYSession(session.id, 'gone'), false);
+});
+
+test('holds back output from every session while paused', async () => {
+    const running = createPTYSession({ command: 'cat' });
+    setPTYOutputPaused(true);
+    assert.equal(isPTYOutputPaused(), true);
+    // Sessions started meanwhile are paused too
+    const started = createPTYSession({ command: 'cat' });
+
+    writeToPTY('held back\r', running.id);
+    writeToPTY('held back\r', started.id);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.equal(output.get(running.id), undefined);
+    assert.equal(output.get(started.id), undefined);
+
+    setPTYOutputPaused(false);
+    await waitFor(() => [running.id, started.id].every((id) => (output.get(id) || '').includes('held back')));
+
+    closePTYSession(running.id);
+    closePTYSession(started.id);
+});
+
+test('local prompts are asked one at a time, in order', () => {
+    const events: string[] = [];
+    const prompt = (name: string) => ({
+        ask: () => events.push(`ask ${name}`),
+        answer: (key: string) => events.push(`${name}=${key}`),
+    });
+
+    promptLocalKey(prompt('device'));
+    promptLocalKey(prompt('kick'));
+    assert.deepEqual(events, ['ask device']);
+
+    press('y');
+    assert.deepEqual(events, ['ask device', 'device=y', 'ask kick']);
+    press('2');
+    assert.deepEqual(events, ['ask device', 'device=y', 'ask kick', 'kick=2']);
+});
+
+test('withdrawing a prompt leaves the others in place', () => {
+    const events: string[] = [];
+    const prompt = (name: string) => ({
+        ask: () => events.push(`ask ${name}`),
+        answer: (key: string) => events.push(`${name}=${key}`),
+    });
+
+    const cancelGuard = promptLocalKey(prompt('guard'))!;
+    const cancelDevice = promptLocalKey(prompt('device'))!;
+    promptLocalKey(prompt('pin'));
+
+    // Still waiting: withdrawn without the shown question noticing
+    assert.equal(cancelDevice(), true);
+    assert.deepEqual(events, ['ask guard']);
+
+    // Showing: the next one is asked
+    assert.equal(cancelGuard(), true);
+    assert.deepEqual(events, ['ask guard', 'ask pin']);
+    assert.equal(cancelGuard(), false);
+
+    press('n');
+    assert.deepEqual(events, ['ask guard', 'ask pin', 'pin=n']);
+});
+
+test('stops calling a callback once it is removed', async () => {
+    const session = createPTYSession({ command: 'cat' });
+    let removed = '';
+    const unsubscribe = onPTYData((data, sessionId) => {
+        if (sessionId === session.id) removed += data;
+    });
+
+    writeToPTY('before\r', session.id);
+    await waitFor(() => removed.includes('before'));
+    unsubscribe();
+    unsubscribe();
+
+    writeToPTY('after\r', session.id);
+    await waitFor(() => (output.get(session.id) || '').includes('after'));
+    assert.ok(!removed.includes('after'));
+
+    closePTYSession(session.id);
+});
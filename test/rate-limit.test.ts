@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RateLimiter, formatWait } from '../src/rate-limit';
+
+const SECOND = 1000;
+
+test('allows a burst, then makes the key wait for a refill', () => {
+    const limiter = new RateLimiter({ capacity: 3, refillInterval: 10 * SECOND });
+    const now = 1_000_000;
+
+    assert.equal(limiter.consume('1.2.3.4', now), 0);
+    assert.equal(limiter.consume('1.2.3.4', now), 0);
+    assert.equal(limiter.remaining('1.2.3.4', now), 1);
+    assert.equal(limiter.consume('1.2.3.4', now), 10 * SECOND);
+    assert.equal(limiter.retryAfter('1.2.3.4', now + 4 * SECOND), 6 * SECOND);
+    assert.equal(limiter.retryAfter('1.2.3.4', now + 10 * SECOND), 0);
+});
+
+test('keeps a separate bucket per key', () => {
+    const limiter = new RateLimiter({ capacity: 1, refillInterval: 60 * SECOND });
+    const now = 1_000_000;
+
+    assert.ok(limiter.consume('1.2.3.4', now) > 0);
+    assert.equal(limiter.retryAfter('5.6.7.8', now), 0);
+    assert.equal(limiter.remaining('5.6.7.8', now), 1);
+});
+
+test('doubles the block every time a key runs dry, up to the maximum', () => {
+    const limiter = new RateLimiter({
+        capacity: 1, refillInterval: SECOND, blockDuration: 60 * SECOND, maxBlockDuration: 150 * SECOND,
+    });
+    let now = 1_000_000;
+
+    assert.equal(limiter.consume('1.2.3.4', now), 60 * SECOND);
+    now += 60 * SECOND;
+    assert.equal(limiter.consume('1.2.3.4', now), 120 * SECOND);
+    now += 120 * SECOND;
+    assert.equal(limiter.consume('1.2.3.4', now), 150 * SECOND);
+});
+
+test('reset forgets a key\'s strikes', () => {
+    const limiter = new RateLimiter({ capacity: 1, refillInterval: SECOND, blockDuration: 60 * SECOND });
+    const now = 1_000_000;
+
+    limiter.consume('1.2.3.4', now);
+    limiter.reset('1.2.3.4');
+    assert.equal(limiter.retryAfter('1.2.3.4', now), 0);
+    assert.equal(limiter.consume('1.2.3.4', now), 60 * SECOND);
+});
+
+test('formats waits in seconds, then minutes', () => {
+    assert.equal(formatWait(1), '1 second');
+    assert.equal(formatWait(45 * SECOND), '45 seconds');
+    assert.equal(formatWait(4 * 60 * SECOND), '4 minutes');
+});
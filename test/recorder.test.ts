@@ -0,0 +1,67 @@
+import { TEST_HOME } from './helpers/home';
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnPTY, killPTY, writeToPTY, resizePTY, onPTYData } from '../src/pty';
+import {
+    RECORDINGS_DIR, resolveRecordingPath, startRecording, stopRecording, listRecordings,
+} from '../src/recorder';
+
+let output = '';
+
+function waitForOutput(text: string): Promise<void> {
+    const deadline = Date.now() + 5000;
+    return new Promise((resolve, reject) => {
+        const poll = () => {
+            if (output.includes(text)) {
+                resolve();
+            } else if (Date.now() > deadline) {
+                reject(new Error(`Timed out waiting for ${JSON.stringify(text)}`));
+            } else {
+                setTimeout(poll, 10);
+            }
+        };
+        poll();
+    });
+}
+
+before(() => {
+    onPTYData((data) => output += data);
+    spawnPTY({ command: 'cat', cols: 80, rows: 24 });
+});
+
+after(() => {
+    killPTY();
+    process.stdin.pause();
+});
+
+test('puts bare names in the recordings directory', () => {
+    assert.ok(RECORDINGS_DIR.startsWith(TEST_HOME));
+    assert.equal(resolveRecordingPath('nightly'), path.join(RECORDINGS_DIR, 'nightly.cast'));
+    assert.equal(resolveRecordingPath('nightly.txt'), path.join(RECORDINGS_DIR, 'nightly.txt'));
+    assert.equal(resolveRecordingPath('./out/run.cast'), path.resolve('out/run.cast'));
+});
+
+test('writes the main session as asciicast v2', async () => {
+    const file = startRecording('session', { cols: 80, rows: 24, title: 'test run' });
+    assert.deepEqual(listRecordings().map((recording) => [recording.name, recording.active]), [['session.cast', true]]);
+
+    writeToPTY('hello\r');
+    await waitForOutput('hello');
+    resizePTY(100, 30);
+    stopRecording();
+
+    const [header, ...events] = fs.readFileSync(file, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+    assert.equal(header.version, 2);
+    assert.equal(header.width, 80);
+    assert.equal(header.height, 24);
+    assert.equal(header.title, 'test run');
+
+    assert.deepEqual(events.find(([, code]) => code === 'i').slice(1), ['i', 'hello\r']);
+    assert.ok(events.some(([, code, data]) => code === 'o' && data.includes('hello')));
+    assert.deepEqual(events[events.length - 1].slice(1), ['r', '100x30']);
+    events.forEach(([time], index) => {
+        assert.ok(time >= (index > 0 ? events[index - 1][0] : 0));
+    });
+});
@@ -0,0 +1,58 @@
+import { test, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Terminal } from '@xterm/headless';
+import { writeScreen, resizeScreen, serializeScreen, disposeScreen, disposeAllScreens } from '../src/screen';
+
+after(() => {
+    disposeAllScreens();
+});
+
+/**
+ * Visible lines of a terminal that was fed a snapshot
+ */
+function replay(snapshot: { data: string; cols: number; rows: number }): Promise<string[]> {
+    const terminal = new Terminal({ cols: snapshot.cols, rows: snapshot.rows, allowProposedApi: true });
+    return new Promise((resolve) => {
+        terminal.write(snapshot.data, () => {
+            const buffer = terminal.buffer.active;
+            const lines: string[] = [];
+            for (let y = 0; y < terminal.rows; y++) {
+                lines.push(buffer.getLine(buffer.viewportY + y)!.translateToString(true));
+            }
+            terminal.dispose();
+            resolve(lines);
+        });
+    });
+}
+
+test('a snapshot reproduces the screen, not the raw output', async () => {
+    // Overwrites the first line and clears the second, like a full-screen program would
+    writeScreen('main', 'first line here\r\nsecond line\r\n', 40, 5);
+    writeScreen('main', '\x1b[1;1Hrewritten!\x1b[2;1H\x1b[2K', 40, 5);
+
+    const snapshot = await serializeScreen('main');
+    assert.ok(snapshot);
+    assert.equal(snapshot.cols, 40);
+    assert.equal(snapshot.rows, 5);
+
+    const lines = await replay(snapshot);
+    assert.equal(lines[0], 'rewritten! here');
+    assert.equal(lines[1], '');
+});
+
+test('each session has its own screen', async () => {
+    writeScreen('term-1', 'in a tab', 20, 3);
+
+    const lines = await replay((await serializeScreen('term-1'))!);
+    assert.equal(lines[0], 'in a tab');
+    assert.equal(await serializeScreen('term-2'), null);
+});
+
+test('follows resizes and forgets disposed screens', async () => {
+    writeScreen('term-3', 'x', 20, 3);
+    resizeScreen('term-3', 30, 6);
+    assert.equal((await serializeScreen('term-3'))?.cols, 30);
+
+    disposeScreen('term-3');
+    assert.equal(await serializeScreen('term-3'), null);
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ScrollbackBuffer, parseSize } from '../src/scrollback';
+
+test('parses sizes with units', () => {
+    assert.equal(parseSize('512'), 512);
+    assert.equal(parseSize('512kb'), 512 * 1024);
+    assert.equal(parseSize(' 4M '), 4 * 1024 ** 2);
+    assert.equal(parseSize('1.5gb'), 1.5 * 1024 ** 3);
+    assert.throws(() => parseSize('lots'), /Invalid size/);
+});
+
+test('drops the oldest output once over the byte cap, keeping offsets', () => {
+    const buffer = new ScrollbackBuffer(10);
+    buffer.append('aaaa');
+    buffer.append('bbbb');
+    buffer.append('cccc');
+
+    assert.equal(buffer.size, 10);
+    assert.equal(buffer.startOffset, 2);
+    assert.equal(buffer.endOffset, 12);
+    assert.equal(buffer.read().data, 'aabbbbcccc');
+});
+
+test('cuts a large chunk on a UTF-8 character boundary', () => {
+    const buffer = new ScrollbackBuffer(4);
+    // Three bytes per character
+    buffer.append('日本語');
+
+    assert.equal(buffer.read().data, '語');
+    assert.equal(buffer.size, 3);
+    assert.equal(buffer.startOffset, 6);
+});
+
+test('pages back through whole chunks, newest first', () => {
+    const buffer = new ScrollbackBuffer(1024);
+    ['one ', 'two ', 'three ', 'four '].forEach((data) => buffer.append(data));
+
+    const latest = buffer.read(buffer.endOffset, 11);
+    assert.deepEqual(latest, { start: 8, end: 19, data: 'three four ', hasMore: true });
+
+    const earlier = buffer.read(latest.start, 11);
+    assert.deepEqual(earlier, { start: 0, end: 8, data: 'one two ', hasMore: false });
+
+    // A chunk bigger than the limit still comes back on its own
+    assert.equal(buffer.read(buffer.endOffset, 1).data, 'four ');
+});
+
+test('reads before the oldest byte come back empty', () => {
+    const buffer = new ScrollbackBuffer(4);
+    buffer.append('abcd');
+    buffer.append('efgh');
+
+    assert.deepEqual(buffer.read(2), { start: 2, end: 2, data: '', hasMore: false });
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RestartBackoff, shouldRestart, RESTART_DELAY, MAX_RESTART_DELAY, STABLE_RUN_TIME } from '../src/session';
+
+test('restarts according to the policy and exit code', () => {
+    assert.equal(shouldRestart('never', 1), false);
+    assert.equal(shouldRestart('on-failure', 0), false);
+    assert.equal(shouldRestart('on-failure', 137), true);
+    assert.equal(shouldRestart('always', 0), true);
+});
+
+test('doubles the delay after each quick failure, up to the maximum', () => {
+    const backoff = new RestartBackoff();
+    const delays = Array.from({ length: 7 }, () => backoff.next(100));
+
+    assert.equal(delays[0], RESTART_DELAY);
+    assert.equal(delays[1], RESTART_DELAY * 2);
+    assert.equal(delays[2], RESTART_DELAY * 4);
+    assert.equal(delays[6], MAX_RESTART_DELAY);
+});
+
+test('starts over once the command ran long enough to count as healthy', () => {
+    const backoff = new RestartBackoff();
+    backoff.next(100);
+    backoff.next(100);
+
+    assert.equal(backoff.next(STABLE_RUN_TIME), RESTART_DELAY);
+    assert.equal(backoff.next(100), RESTART_DELAY * 2);
+});
+
+test('a restart by hand resets the delay', () => {
+    const backoff = new RestartBackoff();
+    backoff.next(100);
+    backoff.next(100);
+    backoff.reset();
+
+    assert.equal(backoff.next(100), RESTART_DELAY);
+});
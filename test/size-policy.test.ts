@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { clampSize, parseSizePolicy, resolveSize, SizeCandidate } from '../src/size-policy';
+
+const FALLBACK = { cols: 80, rows: 24 };
+
+test('clamps client sizes to the fixed size bounds', () => {
+    assert.deepEqual(clampSize(120, 40), { cols: 120, rows: 40 });
+    assert.deepEqual(clampSize(0, 0), { cols: 10, rows: 2 });
+    assert.deepEqual(clampSize(-5, 1), { cols: 10, rows: 2 });
+    assert.deepEqual(clampSize(100000, 100000), { cols: 1000, rows: 500 });
+});
+
+test('rejects sizes that aren\'t whole numbers', () => {
+    assert.equal(clampSize(80.5, 24), null);
+    assert.equal(clampSize('80', 24), null);
+    assert.equal(clampSize(80, NaN), null);
+    assert.equal(clampSize(Infinity, 24), null);
+    assert.equal(clampSize(undefined, undefined), null);
+});
+
+test('parses policies and range-checks fixed sizes', () => {
+    assert.deepEqual(parseSizePolicy(' Latest-Active '), { mode: 'latest-active' });
+    assert.deepEqual(parseSizePolicy('fixed:120x40'), { mode: 'fixed', cols: 120, rows: 40 });
+    assert.throws(() => parseSizePolicy('fixed:9x40'), /out of range/);
+    assert.throws(() => parseSizePolicy('fixed:120x501'), /out of range/);
+    assert.throws(() => parseSizePolicy('biggest'), /Invalid size policy/);
+});
+
+test('resolves sizes for each policy', () => {
+    const local: SizeCandidate = { cols: 100, rows: 30, lastInputAt: 0 };
+    const clients: SizeCandidate[] = [
+        { cols: 80, rows: 50, lastInputAt: 5 },
+        { cols: 200, rows: 20, lastInputAt: 9 },
+    ];
+
+    assert.deepEqual(resolveSize({ mode: 'min' }, local, clients, FALLBACK), { cols: 80, rows: 20 });
+    assert.deepEqual(resolveSize({ mode: 'latest-active' }, local, clients, FALLBACK), { cols: 200, rows: 20 });
+    assert.deepEqual(resolveSize({ mode: 'local' }, local, clients, FALLBACK), local);
+    assert.deepEqual(resolveSize({ mode: 'local' }, null, clients, FALLBACK), { cols: 80, rows: 20 });
+    assert.deepEqual(resolveSize({ mode: 'fixed', cols: 132, rows: 43 }, local, clients, FALLBACK), { cols: 132, rows: 43 });
+    assert.deepEqual(resolveSize({ mode: 'min' }, null, [], FALLBACK), FALLBACK);
+});
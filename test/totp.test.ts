@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { generateTOTPSecret, totpCode, verifyTOTP } from '../src/totp';
+
+const PERIOD = 30 * 1000;
+
+test('matches the RFC 6238 test vector', () => {
+    // "12345678901234567890" in base32, at 59 seconds
+    const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+    assert.equal(totpCode(secret, 59 * 1000), '287082');
+});
+
+test('accepts codes from the neighbouring steps only', () => {
+    const secret = generateTOTPSecret();
+    const now = 1000 * PERIOD;
+    assert.equal(verifyTOTP(secret, totpCode(secret, now - PERIOD), now), true);
+    assert.equal(verifyTOTP(secret, totpCode(secret, now + PERIOD), now), true);
+    assert.equal(verifyTOTP(secret, totpCode(secret, now - 2 * PERIOD), now), false);
+    assert.equal(verifyTOTP(secret, '12345', now), false);
+    assert.equal(verifyTOTP(secret, 123456, now), false);
+});
+
+test('a code works once', () => {
+    const secret = generateTOTPSecret();
+    const now = 2000 * PERIOD;
+    const code = totpCode(secret, now);
+    assert.equal(verifyTOTP(secret, code, now), true);
+    assert.equal(verifyTOTP(secret, code, now + 1000), false);
+});
+
+test('a used code doesn\'t block other logins in the same step', () => {
+    const now = 3000 * PERIOD;
+    const first = generateTOTPSecret();
+    const second = generateTOTPSecret();
+    assert.equal(verifyTOTP(first, totpCode(first, now), now), true);
+    // Another secret (another user or session) at the same time
+    assert.equal(verifyTOTP(second, totpCode(second, now), now), true);
+    // The same secret, with the code the phone shows a step later (e.g. after an idle lock)
+    assert.equal(verifyTOTP(first, totpCode(first, now + PERIOD), now + PERIOD), true);
+});
+
+test('a later step used first doesn\'t lock out the current one', () => {
+    const secret = generateTOTPSecret();
+    const now = 4000 * PERIOD;
+    // A phone whose clock runs a step ahead logs in first
+    assert.equal(verifyTOTP(secret, totpCode(secret, now + PERIOD), now), true);
+    assert.equal(verifyTOTP(secret, totpCode(secret, now), now), true);
+});
@@ -0,0 +1,45 @@
+import { TEST_HOME } from './helpers/home';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateUsername, addUser, removeUser, listUsers, verifyUser } from '../src/users';
+
+test('normalizes and checks usernames', () => {
+    assert.equal(validateUsername('  Alice.B '), 'alice.b');
+    assert.throws(() => validateUsername('-alice'), /Usernames are/);
+    assert.throws(() => validateUsername('a'.repeat(33)), /Usernames are/);
+    assert.throws(() => validateUsername('al ice'), /Usernames are/);
+});
+
+test('stores a scrypt hash, never the password', async () => {
+    assert.equal(await addUser('alice', 'correct horse', 'owner'), true);
+
+    const stored = fs.readFileSync(path.join(TEST_HOME, '.codingin', 'users.json'), 'utf-8');
+    assert.ok(!stored.includes('correct horse'));
+    assert.match(listUsers()[0].password, /^scrypt\$16384\$8\$1\$/);
+});
+
+test('verifies passwords, and updating a user replaces the old one', async () => {
+    await addUser('bob', 'first password', 'viewer');
+    assert.equal((await verifyUser('BOB', 'first password'))?.role, 'viewer');
+    assert.equal(await verifyUser('bob', 'wrong password'), null);
+
+    assert.equal(await addUser('bob', 'second password', 'owner'), false);
+    assert.equal(await verifyUser('bob', 'first password'), null);
+    assert.equal((await verifyUser('bob', 'second password'))?.role, 'owner');
+});
+
+test('unknown users and bad input don\'t verify', async () => {
+    assert.equal(await verifyUser('nobody', 'any password'), null);
+    assert.equal(await verifyUser(undefined, 'any password'), null);
+    assert.equal(await verifyUser('alice', 42), null);
+    await assert.rejects(addUser('carol', 'short', 'viewer'), /at least 8 characters/);
+});
+
+test('removed users can no longer log in', async () => {
+    await addUser('dave', 'dave password', 'viewer');
+    assert.equal(removeUser('Dave'), true);
+    assert.equal(removeUser('dave'), false);
+    assert.equal(await verifyUser('dave', 'dave password'), null);
+});
@@ -0,0 +1,75 @@
+import './helpers/home';
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { gatewayClientIP, startTunnel, stopTunnel } from '../src/vortex-tunnel';
+import { startWebServer, stopWebServer } from '../src/web-server';
+import { spawnPTY, killPTY } from '../src/pty';
+import { FakeGateway, startFakeGateway } from './helpers/gateway';
+
+const GATEWAY_PORT = 38920;
+const PORT = 38921;
+
+let gateway: FakeGateway;
+
+function waitFor(check: () => boolean, timeout: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    return new Promise((resolve, reject) => {
+        const poll = () => {
+            if (check()) {
+                resolve();
+            } else if (Date.now() > deadline) {
+                reject(new Error('Timed out'));
+            } else {
+                setTimeout(poll, 10);
+            }
+        };
+        poll();
+    });
+}
+
+before(async () => {
+    gateway = await startFakeGateway(GATEWAY_PORT);
+    spawnPTY({ command: 'cat' });
+    await startWebServer(PORT, '123456');
+    await startTunnel(PORT, gateway.url);
+});
+
+after(async () => {
+    stopTunnel();
+    stopWebServer();
+    await gateway.close();
+    killPTY();
+    process.stdin.pause();
+});
+
+test('the gateway\'s client_ip wins', () => {
+    assert.equal(gatewayClientIP({ 'X-Forwarded-For': '1.1.1.1, 2.2.2.2' }, '3.3.3.3'), '3.3.3.3');
+});
+
+test('otherwise the last X-Forwarded-For hop, the one the gateway added', () => {
+    assert.equal(gatewayClientIP({ 'X-Forwarded-For': '1.1.1.1, 2.2.2.2' }), '2.2.2.2');
+    assert.equal(gatewayClientIP({ 'x-forwarded-for': '2.2.2.2' }), '2.2.2.2');
+});
+
+test('X-Real-IP from the browser can\'t pick the rate-limit key', () => {
+    const key = gatewayClientIP({ 'X-Real-IP': '9.9.9.9', 'X-Forwarded-For': '9.9.9.9, 2.2.2.2' });
+    assert.equal(key, '2.2.2.2');
+    assert.equal(gatewayClientIP({ 'X-Real-IP': '8.8.8.8' }), null);
+});
+
+test('the server\'s close code and reason reach the gateway', async () => {
+    gateway.send({ type: 'websocket_connect', conn_id: 'conn-1', headers: {} });
+
+    // Messages sent before the tunnel's local socket opens are dropped, so keep trying
+    const closed = () => gateway.received.find((msg) => msg.type === 'websocket_close' && msg.conn_id === 'conn-1');
+    const retry = setInterval(() => {
+        gateway.send({ type: 'websocket_message', conn_id: 'conn-1', data: JSON.stringify({ type: 'auth', token: 'forged' }) });
+    }, 50);
+    try {
+        await waitFor(() => closed() !== undefined);
+    } finally {
+        clearInterval(retry);
+    }
+
+    assert.deepEqual(closed(), { type: 'websocket_close', conn_id: 'conn-1', code: 4001, reason: 'Authentication failed' });
+});
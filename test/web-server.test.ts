@@ -0,0 +1,266 @@
+import './helpers/home';
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { WebSocket } from 'ws';
+import { startWebServer, stopWebServer } from '../src/web-server';
+import { spawnPTY, killPTY, onPTYInput, listPTYSessions, getPTYSession, closePTYSession, MAIN_SESSION_ID } from '../src/pty';
+import { createInvite } from '../src/invites';
+import { startAudit, readAudit } from '../src/audit';
+import { addUser, removeUser } from '../src/users';
+
+const PORT = 38917;
+const ORIGIN = `http://localhost:${PORT}`;
+const OWNER_PIN = '123456';
+const VIEWER_PIN = '654321';
+
+// JSON messages from the server
+type ServerMessage = { type: string; [field: string]: unknown };
+
+// Everything typed into the terminals, by whoever
+const inputs: string[] = [];
+
+function waitFor(check: () => boolean, timeout: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    return new Promise((resolve, reject) => {
+        const poll = () => {
+            if (check()) {
+                resolve();
+            } else if (Date.now() > deadline) {
+                reject(new Error('Timed out'));
+            } else {
+                setTimeout(poll, 10);
+            }
+        };
+        poll();
+    });
+}
+
+function api(path: string, cookie: string, method: string = 'GET', body?: unknown): Promise<Response> {
+    return fetch(`${ORIGIN}${path}`, {
+        method,
+        headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+}
+
+/**
+ * Log in with a PIN and return the auth cookie
+ */
+async function login(pin: string): Promise<string> {
+    const response = await fetch(`${ORIGIN}/api/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pin }),
+    });
+    assert.equal(response.status, 200);
+    return response.headers.get('set-cookie')!.split(';')[0];
+}
+
+/**
+ * Log in through a fresh operator invite and return the auth cookie
+ */
+async function loginAsOperator(): Promise<string> {
+    const { token } = createInvite('operator', 60 * 1000, 'test');
+    const response = await fetch(`${ORIGIN}/api/invite`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+    });
+    assert.equal(response.status, 200);
+    return response.headers.get('set-cookie')!.split(';')[0];
+}
+
+/**
+ * Open /ws like a logged-in browser. Resolves with the socket, the role it was given and
+ * every message it receives from then on.
+ */
+function connect(cookie: string): Promise<{ ws: WebSocket; role: unknown; messages: ServerMessage[] }> {
+    return new Promise((resolve, reject) => {
+        const ws = new WebSocket(`ws://localhost:${PORT}/ws`, { headers: { Cookie: cookie, Origin: ORIGIN } });
+        const messages: ServerMessage[] = [];
+        ws.on('message', (data, isBinary) => {
+            if (isBinary) return;
+            const msg: ServerMessage = JSON.parse(data.toString());
+            messages.push(msg);
+            if (msg.type === 'role') {
+                resolve({ ws, role: msg.role, messages });
+            }
+        });
+        ws.on('error', reject);
+    });
+}
+
+/**
+ * Send a WebSocket upgrade to /ws and resolve with the HTTP status it was answered with
+ */
+function upgrade(headers: http.OutgoingHttpHeaders): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const req = http.request({
+            port: PORT,
+            path: '/ws',
+            headers: {
+                Connection: 'Upgrade',
+                Upgrade: 'websocket',
+                'Sec-WebSocket-Version': '13',
+                'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+                ...headers,
+            },
+        });
+        req.on('response', (res) => {
+            res.resume();
+            resolve(res.statusCode || 0);
+        });
+        req.on('upgrade', (res, socket) => {
+            socket.destroy();
+            resolve(101);
+        });
+        req.on('error', reject);
+        req.end();
+    });
+}
+
+before(async () => {
+    onPTYInput((data) => inputs.push(data));
+    startAudit();
+    spawnPTY({ command: 'cat' });
+    await startWebServer(PORT, OWNER_PIN, { viewerPin: VIEWER_PIN });
+});
+
+after(() => {
+    stopWebServer();
+    killPTY();
+    process.stdin.pause();
+});
+
+test('the viewer PIN logs in read-only', async () => {
+    const response = await fetch(`${ORIGIN}/api/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pin: VIEWER_PIN }),
+    });
+    assert.deepEqual(await response.json(), { success: true, role: 'viewer' });
+
+    const viewer = response.headers.get('set-cookie')!.split(';')[0];
+    assert.equal((await api('/api/sessions', viewer)).status, 200);
+    assert.equal((await api('/api/sessions', viewer, 'POST', { command: 'cat' })).status, 403);
+});
+
+test('keystrokes from viewers never reach the terminal', async () => {
+    const viewer = await connect(await login(VIEWER_PIN));
+    const owner = await connect(await login(OWNER_PIN));
+    assert.equal(viewer.role, 'viewer');
+    assert.equal(owner.role, 'owner');
+
+    viewer.ws.send(JSON.stringify({ type: 'input', data: 'from the viewer\r' }));
+    owner.ws.send(JSON.stringify({ type: 'input', data: 'from the owner\r' }));
+    await waitFor(() => inputs.includes('from the owner\r'));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.ok(!inputs.includes('from the viewer\r'));
+
+    viewer.ws.close();
+    owner.ws.close();
+});
+
+test('keystrokes are dropped while remote input is locked', async () => {
+    const cookie = await login(OWNER_PIN);
+    const owner = await connect(cookie);
+
+    const locked = await api('/api/admin/input-lock', cookie, 'POST', { locked: true });
+    assert.deepEqual(await locked.json(), { success: true, locked: true });
+    await waitFor(() => owner.messages.some((msg) => msg.type === 'input_lock' && msg.locked === true));
+
+    owner.ws.send(JSON.stringify({ type: 'input', data: 'while locked\r' }));
+    assert.equal((await api('/api/sessions', cookie, 'POST', {})).status, 423);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await api('/api/admin/input-lock', cookie, 'POST', { locked: false });
+    owner.ws.send(JSON.stringify({ type: 'input', data: 'after unlocking\r' }));
+    await waitFor(() => inputs.includes('after unlocking\r'));
+    assert.ok(!inputs.includes('while locked\r'));
+
+    assert.equal((await api('/api/admin/input-lock', cookie, 'POST', { locked: 'yes' })).status, 400);
+    owner.ws.close();
+});
+
+test('a malformed cookie on a WebSocket upgrade is treated as missing', async () => {
+    assert.equal(await upgrade({ Cookie: 'device=%E0%A4%A; auth=%' }), 401);
+
+    // Still serving
+    const response = await fetch(`${ORIGIN}/login`);
+    assert.equal(response.status, 200);
+});
+
+test('a cookie only authenticates WebSocket upgrades that carry an allowed Origin', async () => {
+    const cookie = await login(OWNER_PIN);
+    assert.equal(await upgrade({ Cookie: cookie, Origin: ORIGIN }), 101);
+    assert.equal(await upgrade({ Cookie: cookie, Origin: 'https://evil.example' }), 403);
+    // Not a browser, or a browser made to leave it out: the cookie isn't enough
+    assert.equal(await upgrade({ Cookie: cookie }), 401);
+});
+
+test('only owners can start a terminal running a custom command', async () => {
+    const operator = await loginAsOperator();
+    const refused = await api('/api/sessions', operator, 'POST', { command: 'rm -rf /tmp/x' });
+    assert.equal(refused.status, 403);
+    assert.equal(listPTYSessions().length, 1);
+
+    const shell = await api('/api/sessions', operator, 'POST', { name: 'shell' });
+    assert.equal(shell.status, 201);
+    const custom = await api('/api/sessions', await login(OWNER_PIN), 'POST', { command: 'cat' });
+    assert.equal(custom.status, 201);
+    assert.equal((await custom.json()).session.command, 'cat');
+
+    for (const session of listPTYSessions()) {
+        if (!session.main) closePTYSession(session.id);
+    }
+});
+
+test('terminals opened, renamed and closed from the web are audited', async () => {
+    const operator = await loginAsOperator();
+    const { session } = await (await api('/api/sessions', operator, 'POST', { name: 'build' })).json();
+    await api(`/api/sessions/${session.id}`, operator, 'PATCH', { name: 'tests' });
+    await api(`/api/sessions/${session.id}`, operator, 'DELETE');
+
+    const entries = (await readAudit()).filter((entry) => entry.session === session.id);
+    assert.deepEqual(entries.map((entry) => entry.event), ['session_created', 'session_renamed', 'session_closed']);
+    assert.equal(entries[0].name, 'build');
+    assert.equal(entries[1].name, 'tests');
+    entries.forEach((entry) => {
+        assert.equal(entry.role, 'operator');
+        assert.equal(entry.ip, '127.0.0.1');
+    });
+});
+
+test('users added while running can log in, and the login page asks for them', async () => {
+    assert.doesNotMatch(await (await fetch(`${ORIGIN}/login`)).text(), /id="username"/);
+
+    await addUser('carol', 'carol password', 'viewer');
+    assert.match(await (await fetch(`${ORIGIN}/login`)).text(), /id="username"/);
+    const response = await fetch(`${ORIGIN}/api/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: 'carol', password: 'carol password' }),
+    });
+    assert.deepEqual(await response.json(), { success: true, role: 'viewer', user: 'carol' });
+
+    // Still asked for after the last user is gone
+    removeUser('carol');
+    assert.match(await (await fetch(`${ORIGIN}/login`)).text(), /id="username"/);
+});
+
+test('a resize for one terminal leaves the others alone', async () => {
+    const cookie = await login(OWNER_PIN);
+    const owner = await connect(cookie);
+    const { session } = await (await api('/api/sessions', cookie, 'POST', {})).json();
+
+    owner.ws.send(JSON.stringify({ type: 'resize', sessionId: MAIN_SESSION_ID, cols: 70, rows: 22 }));
+    owner.ws.send(JSON.stringify({ type: 'resize', sessionId: session.id, cols: 50, rows: 15 }));
+    await waitFor(() => getPTYSession(session.id)?.cols === 50);
+
+    assert.equal(getPTYSession(session.id)?.rows, 15);
+    assert.equal(getPTYSession(MAIN_SESSION_ID)?.cols, 70);
+    assert.equal(getPTYSession(MAIN_SESSION_ID)?.rows, 22);
+
+    owner.ws.close();
+    closePTYSession(session.id);
+});